@@ -0,0 +1,45 @@
+// Generate typed ABI modules from the Foundry build artifacts.
+//
+// Usage: npm run generate:abis [-- <artifacts dir>]   (defaults to ../contract/out)
+//
+// Each ABI is written as an `as const` literal so wagmi and viem infer
+// function names, arguments, return values and event args from it.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const CONTRACTS = [
+  'MockUSDT',
+  'USDTFaucet',
+  'InterestCalculator',
+  'CollateralManager',
+  'CreditScore',
+  'LendingPool',
+  'LoanManager',
+  'IPriceOracle',
+];
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const artifactsDir = resolve(root, process.argv[2] ?? '../contract/out');
+const abisDir = join(root, 'src/lib/contracts/abis');
+
+for (const name of CONTRACTS) {
+  const artifactPath = join(artifactsDir, `${name}.sol`, `${name}.json`);
+  let artifact;
+  try {
+    artifact = JSON.parse(readFileSync(artifactPath, 'utf8'));
+  } catch {
+    console.error(`Missing artifact ${artifactPath}. Run \`forge build\` in contract/ first.`);
+    process.exit(1);
+  }
+
+  const source = [
+    `// Generated by scripts/generate-abis.mjs from ${name}.sol. Do not edit by hand.`,
+    `export const ${name}ABI = ${JSON.stringify(artifact.abi, null, 2)} as const;`,
+    '',
+  ].join('\n');
+
+  writeFileSync(join(abisDir, `${name}.ts`), source);
+  console.log(`Wrote ${name}ABI (${artifact.abi.length} items)`);
+}
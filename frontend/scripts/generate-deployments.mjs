@@ -0,0 +1,57 @@
+// Record the protocol's deployed addresses per chain from the Foundry broadcast logs.
+//
+// Usage: npm run generate:deployments [-- <broadcast dir>]   (defaults to ../contract/broadcast/Deploy.s.sol)
+//
+// Reads <broadcast dir>/<chainId>/run-latest.json for every chain that has one and
+// writes src/lib/contracts/deployments.json. Chains without a broadcast log here
+// (e.g. Anvil, whose logs are git-ignored) keep their existing entry.
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Contract name in Deploy.s.sol -> key in ContractAddresses
+const CONTRACTS = {
+  MockUSDT: 'mockUSDT',
+  USDTFaucet: 'usdtFaucet',
+  InterestCalculator: 'interestCalculator',
+  CollateralManager: 'collateralManager',
+  CreditScore: 'creditScore',
+  LendingPool: 'lendingPool',
+  LoanManager: 'loanManager',
+};
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const broadcastDir = resolve(root, process.argv[2] ?? '../contract/broadcast/Deploy.s.sol');
+const outputPath = join(root, 'src/lib/contracts/deployments.json');
+
+if (!existsSync(broadcastDir)) {
+  console.error(`Missing ${broadcastDir}. Run Deploy.s.sol with --broadcast first.`);
+  process.exit(1);
+}
+
+const deployments = JSON.parse(readFileSync(outputPath, 'utf8'));
+
+for (const chainId of readdirSync(broadcastDir).filter((name) => /^\d+$/.test(name))) {
+  const runPath = join(broadcastDir, chainId, 'run-latest.json');
+  if (!existsSync(runPath)) continue;
+
+  const run = JSON.parse(readFileSync(runPath, 'utf8'));
+  const contracts = {};
+  for (const tx of run.transactions) {
+    const key = CONTRACTS[tx.contractName];
+    if (tx.transactionType === 'CREATE' && key) contracts[key] = tx.contractAddress;
+  }
+
+  const missing = Object.keys(CONTRACTS).filter((name) => !contracts[CONTRACTS[name]]);
+  if (missing.length > 0) {
+    console.warn(`Skipping chain ${chainId}: ${missing.join(', ')} not found in ${runPath}`);
+    continue;
+  }
+
+  const blocks = run.receipts.map((receipt) => Number(BigInt(receipt.blockNumber)));
+  deployments[chainId] = { deploymentBlock: Math.min(...blocks), contracts };
+  console.log(`Chain ${chainId}: ${Object.keys(contracts).length} contracts from block ${deployments[chainId].deploymentBlock}`);
+}
+
+writeFileSync(outputPath, `${JSON.stringify(deployments, null, 2)}\n`);
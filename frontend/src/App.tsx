@@ -1,14 +1,22 @@
 import { Routes, Route } from 'react-router-dom';
 import { MainLayout } from './components/layout/MainLayout';
+import { RequireSupportedChain } from './components/guards/RequireSupportedChain';
+import { RequireWallet } from './components/guards/RequireWallet';
+import { RequireOwner } from './components/guards/RequireOwner';
 import { Home } from './pages/Home';
 import { Dashboard } from './pages/Dashboard';
+import { DashboardWelcome } from './features/dashboard/DashboardWelcome';
 import { Lend } from './pages/Lend';
 import { Borrow } from './pages/Borrow';
 import { MyLoans } from './pages/MyLoans';
+import { LoanDetail } from './pages/LoanDetail';
 import { Pool } from './pages/Pool';
 import { Faucet } from './pages/Faucet';
 import { Transactions } from './pages/Transactions';
+import { Liquidations } from './pages/Liquidations';
+import { Defaults } from './pages/Defaults';
 import { Profile } from './pages/Profile';
+import { Admin } from './pages/Admin';
 import { ComponentTest } from './pages/ComponentTest';
 import './App.css';
 
@@ -18,72 +26,100 @@ function App() {
       {/* Landing page without layout */}
       <Route path="/" element={<Home />} />
       
-      {/* Main app routes with layout */}
+      {/* Main app routes with layout, all requiring a chain the protocol is deployed on */}
       <Route
-        path="/dashboard"
         element={
           <MainLayout>
-            <Dashboard />
+            <RequireSupportedChain />
           </MainLayout>
         }
-      />
-      <Route
-        path="/lend"
-        element={
-          <MainLayout>
-            <Lend />
-          </MainLayout>
-        }
-      />
-      <Route
-        path="/borrow"
-        element={
-          <MainLayout>
-            <Borrow />
-          </MainLayout>
-        }
-      />
-      <Route
-        path="/my-loans"
-        element={
-          <MainLayout>
-            <MyLoans />
-          </MainLayout>
-        }
-      />
-      <Route
-        path="/pool"
-        element={
-          <MainLayout>
-            <Pool />
-          </MainLayout>
-        }
-      />
-      <Route
-        path="/faucet"
-        element={
-          <MainLayout>
-            <Faucet />
-          </MainLayout>
-        }
-      />
-      <Route
-        path="/transactions"
-        element={
-          <MainLayout>
-            <Transactions />
-          </MainLayout>
-        }
-      />
-      <Route
-        path="/profile"
-        element={
-          <MainLayout>
-            <Profile />
-          </MainLayout>
-        }
-      />
-      
+      >
+        <Route
+          path="/dashboard"
+          element={
+            <RequireWallet fallback={<DashboardWelcome />} allowWatch>
+              <Dashboard />
+            </RequireWallet>
+          }
+        />
+        <Route
+          path="/lend"
+          element={
+            <RequireWallet message="Connect your wallet to start lending and earning interest" allowWatch>
+              <Lend />
+            </RequireWallet>
+          }
+        />
+        <Route
+          path="/borrow"
+          element={
+            <RequireWallet message="Connect your wallet to borrow USDT against your collateral">
+              <Borrow />
+            </RequireWallet>
+          }
+        />
+        <Route
+          path="/my-loans"
+          element={
+            <RequireWallet message="Connect your wallet to view and manage your loans" allowWatch>
+              <MyLoans />
+            </RequireWallet>
+          }
+        />
+        <Route
+          path="/my-loans/:loanId"
+          element={
+            <RequireWallet message="Connect your wallet to view and repay this loan" allowWatch>
+              <LoanDetail />
+            </RequireWallet>
+          }
+        />
+        <Route path="/pool" element={<Pool />} />
+        <Route
+          path="/faucet"
+          element={
+            <RequireWallet message="Connect your wallet to claim test USDT and start using OnLoan">
+              <Faucet />
+            </RequireWallet>
+          }
+        />
+        <Route
+          path="/transactions"
+          element={
+            <RequireWallet message="Connect your wallet to view your transaction history">
+              <Transactions />
+            </RequireWallet>
+          }
+        />
+        <Route
+          path="/liquidations"
+          element={
+            <RequireWallet message="Connect your wallet to liquidate undercollateralized loans">
+              <Liquidations />
+            </RequireWallet>
+          }
+        />
+        <Route
+          path="/defaults"
+          element={
+            <RequireWallet message="Connect your wallet to default overdue loans">
+              <Defaults />
+            </RequireWallet>
+          }
+        />
+        <Route path="/profile" element={<Profile />} />
+        <Route
+          path="/admin"
+          element={
+            <RequireWallet message="Connect the owner wallet to manage the protocol">
+              <RequireOwner>
+                <Admin />
+              </RequireOwner>
+            </RequireWallet>
+          }
+        />
+      </Route>
+
       {/* Component test page without layout */}
       <Route path="/components" element={<ComponentTest />} />
     </Routes>
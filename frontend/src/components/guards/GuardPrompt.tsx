@@ -0,0 +1,42 @@
+import type { ReactNode } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import { Card } from '../ui';
+
+interface GuardPromptProps {
+  icon: LucideIcon;
+  title: string;
+  message: ReactNode;
+  tone?: 'primary' | 'red';
+  children?: ReactNode; // Actions shown under the message
+}
+
+const toneStyles = {
+  primary: {
+    circle: 'from-primary-100 to-primary-200 dark:from-primary-900/40 dark:to-primary-800/40',
+    icon: 'text-primary-600 dark:text-primary-400',
+  },
+  red: {
+    circle: 'from-red-100 to-red-200 dark:from-red-900/40 dark:to-red-800/40',
+    icon: 'text-red-600 dark:text-red-400',
+  },
+};
+
+/** Full-page card shown in place of a route its guard won't render yet. */
+export const GuardPrompt = ({ icon: Icon, title, message, tone = 'primary', children }: GuardPromptProps) => (
+  <div className="flex items-center justify-center min-h-[60vh]">
+    <Card variant="elevated" className="max-w-md w-full text-center">
+      <div className="py-12 space-y-6">
+        <div
+          className={`mx-auto flex h-20 w-20 items-center justify-center rounded-full bg-gradient-to-br ${toneStyles[tone].circle}`}
+        >
+          <Icon className={`h-10 w-10 ${toneStyles[tone].icon}`} />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{title}</h2>
+          <p className="text-gray-600 dark:text-gray-400">{message}</p>
+        </div>
+        {children && <div className="flex flex-col items-center gap-2">{children}</div>}
+      </div>
+    </Card>
+  </div>
+);
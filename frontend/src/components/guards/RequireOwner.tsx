@@ -0,0 +1,33 @@
+import type { ReactNode } from 'react';
+import { Outlet } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Spinner } from '../ui';
+import { useProtocolOwner } from '../../hooks/useProtocolOwner';
+import { GuardPrompt } from './GuardPrompt';
+
+interface RequireOwnerProps {
+  children?: ReactNode; // Defaults to the matched child route
+}
+
+/** Renders its route only for a wallet that owns at least one protocol contract. */
+export const RequireOwner = ({ children }: RequireOwnerProps) => {
+  const { isOwner, isLoading } = useProtocolOwner();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+  if (isOwner) return <>{children ?? <Outlet />}</>;
+
+  return (
+    <GuardPrompt
+      icon={ShieldAlert}
+      title="Owner Only"
+      message="This page is only available to the wallet that owns the protocol contracts."
+      tone="red"
+    />
+  );
+};
@@ -0,0 +1,63 @@
+import type { ReactNode } from 'react';
+import { Outlet } from 'react-router-dom';
+import { useAccount, useConfig, useSwitchChain } from 'wagmi';
+import { AlertTriangle, ServerOff } from 'lucide-react';
+import { Button } from '../ui';
+import { useActiveChainId, useDeployment } from '../../hooks/useContract';
+import { getDeployedChainIds } from '../../lib/contracts/addresses';
+import { GuardPrompt } from './GuardPrompt';
+
+interface RequireSupportedChainProps {
+  children?: ReactNode; // Defaults to the matched child route
+}
+
+/**
+ * Renders its route only on a configured chain where the protocol is deployed,
+ * so no page reads from or writes to a missing contract. Otherwise offers a
+ * one-click switch to each chain that has a deployment.
+ */
+export const RequireSupportedChain = ({ children }: RequireSupportedChainProps) => {
+  const config = useConfig();
+  const { isConnected, chain } = useAccount();
+  const chainId = useActiveChainId();
+  const deployment = useDeployment();
+  const { switchChain, isPending } = useSwitchChain();
+
+  if (deployment) return <>{children ?? <Outlet />}</>;
+
+  const deployedChains = config.chains.filter((option) => getDeployedChainIds().includes(option.id));
+  const switchButtons = deployedChains.map((option) => (
+    <Button key={option.id} onClick={() => switchChain({ chainId: option.id })} loading={isPending}>
+      Switch to {option.name}
+    </Button>
+  ));
+
+  // The wallet is on a chain the app has no RPC for
+  if (isConnected && !chain) {
+    return (
+      <GuardPrompt
+        icon={AlertTriangle}
+        tone="red"
+        title="Wrong Network"
+        message={`Your wallet is connected to chain ${chainId}, which OnLoan doesn't support.`}
+      >
+        {switchButtons}
+      </GuardPrompt>
+    );
+  }
+
+  const chainName = config.chains.find((option) => option.id === chainId)?.name ?? `Chain ${chainId}`;
+
+  return (
+    <GuardPrompt
+      icon={ServerOff}
+      tone="red"
+      title="Protocol Not Deployed on This Network"
+      message={`OnLoan has no contracts on ${chainName}.${
+        deployedChains.length > 0 ? ' Switch to a supported network to continue.' : ''
+      }`}
+    >
+      {switchButtons}
+    </GuardPrompt>
+  );
+};
@@ -0,0 +1,41 @@
+import type { ReactNode } from 'react';
+import { Outlet } from 'react-router-dom';
+import { useAccount } from 'wagmi';
+import { Wallet } from 'lucide-react';
+import { ConnectButton } from '../wallet/ConnectButton';
+import { WatchAddressBar } from '../wallet/WatchAddressBar';
+import { useViewedAccount } from '../../hooks/useViewedAccount';
+import { GuardPrompt } from './GuardPrompt';
+
+interface RequireWalletProps {
+  children?: ReactNode; // Defaults to the matched child route
+  message?: string;
+  fallback?: ReactNode; // Read-only view shown instead of the connect prompt
+  allowWatch?: boolean; // Also render for a `?address=` being watched
+}
+
+/** Renders its route only once a wallet is connected, or an address is watched where allowed. */
+export const RequireWallet = ({
+  children,
+  message = 'Connect your wallet to continue',
+  fallback,
+  allowWatch = false,
+}: RequireWalletProps) => {
+  const { isConnected } = useAccount();
+  const { isWatching } = useViewedAccount();
+
+  if (isConnected || (allowWatch && isWatching)) return <>{children ?? <Outlet />}</>;
+  if (fallback) return <>{fallback}</>;
+
+  return (
+    <GuardPrompt icon={Wallet} title="Connect Your Wallet" message={message}>
+      <ConnectButton />
+      {allowWatch && (
+        <div className="w-full pt-4 text-left">
+          <p className="mb-2 text-center text-sm text-gray-500 dark:text-gray-400">or view any address read-only</p>
+          <WatchAddressBar />
+        </div>
+      )}
+    </GuardPrompt>
+  );
+};
@@ -1,7 +1,10 @@
 import { Link } from 'react-router-dom';
 import { Code2, MessageCircle, FileText } from 'lucide-react';
+import { useExplorer } from '../../hooks/useExplorer';
 
 export const Footer = () => {
+  const { baseUrl: explorerUrl } = useExplorer();
+
   return (
     <footer className="border-t border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 pb-20 lg:pb-0">
       <div className="container mx-auto px-4 py-12">
@@ -49,9 +52,11 @@ export const Footer = () => {
               <FooterLink to="/components">
                 Component Library
               </FooterLink>
-              <FooterLink to="https://sepolia.mantlescan.xyz" external>
-                Block Explorer
-              </FooterLink>
+              {explorerUrl && (
+                <FooterLink to={explorerUrl} external>
+                  Block Explorer
+                </FooterLink>
+              )}
             </ul>
           </div>
 
@@ -1,6 +1,7 @@
 import { Link } from 'react-router-dom';
 import { Menu, X } from 'lucide-react';
 import { ConnectButton } from '../wallet/ConnectButton';
+import { NotificationBell } from '../notifications/NotificationBell';
 import { useState } from 'react';
 import { Button } from '../ui';
 
@@ -33,6 +34,7 @@ export const Header = () => {
 
           {/* Connect Button */}
           <div className="flex items-center gap-2">
+            <NotificationBell />
             <ConnectButton />
             
             {/* Mobile Menu Button */}
@@ -7,8 +7,12 @@ import {
   Waves,
   Droplet,
   Receipt,
+  Gavel,
+  CalendarClock,
   User,
+  ShieldCheck,
 } from 'lucide-react';
+import { useProtocolOwner } from '../../hooks/useProtocolOwner';
 
 const menuItems = [
   { icon: LayoutDashboard, label: 'Dashboard', path: '/dashboard' },
@@ -18,16 +22,22 @@ const menuItems = [
   { icon: Waves, label: 'Pool', path: '/pool' },
   { icon: Droplet, label: 'Faucet', path: '/faucet' },
   { icon: Receipt, label: 'Transactions', path: '/transactions' },
+  { icon: Gavel, label: 'Liquidations', path: '/liquidations' },
+  { icon: CalendarClock, label: 'Defaults', path: '/defaults' },
   { icon: User, label: 'Profile', path: '/profile' },
 ];
 
+const adminItem = { icon: ShieldCheck, label: 'Admin', path: '/admin' };
+
 export const Sidebar = () => {
   const location = useLocation();
+  const { isOwner } = useProtocolOwner();
+  const items = isOwner ? [...menuItems, adminItem] : menuItems;
 
   return (
     <aside className="hidden lg:flex w-64 flex-col border-r border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 h-[calc(100vh-4rem)]">
       <nav className="flex-1 space-y-1 p-4">
-        {menuItems.map((item) => {
+        {items.map((item) => {
           const Icon = item.icon;
           const isActive = location.pathname === item.path;
 
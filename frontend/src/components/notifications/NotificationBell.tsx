@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Bell, CheckCircle, XCircle, AlertTriangle, Info, ExternalLink } from 'lucide-react';
+import { Button } from '../ui';
+import { useNotifications } from '../../hooks/useToast';
+
+const typeIcons = {
+  success: { icon: CheckCircle, color: 'text-green-600 dark:text-green-400' },
+  error: { icon: XCircle, color: 'text-red-600 dark:text-red-400' },
+  warning: { icon: AlertTriangle, color: 'text-yellow-600 dark:text-yellow-400' },
+  info: { icon: Info, color: 'text-blue-600 dark:text-blue-400' },
+};
+
+export const NotificationBell = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { notifications, unreadCount, markAllRead, clearNotifications } = useNotifications();
+
+  const toggle = () => {
+    if (!isOpen) markAllRead();
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="icon" onClick={toggle} aria-label="Notifications" className="relative">
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-bold text-white">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <>
+          {/* Click-away backdrop */}
+          <button type="button" className="fixed inset-0 z-40 cursor-default" onClick={() => setIsOpen(false)} aria-hidden />
+          <div className="absolute right-0 z-50 mt-2 w-80 rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 shadow-lg">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Notifications</h3>
+              {notifications.length > 0 && (
+                <button
+                  type="button"
+                  onClick={clearNotifications}
+                  className="text-xs font-medium text-primary-600 dark:text-primary-400 hover:underline"
+                >
+                  Clear all
+                </button>
+              )}
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-600 dark:text-gray-400">No notifications yet</p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800">
+                {notifications.map((notification) => {
+                  const { icon: Icon, color } = typeIcons[notification.type];
+
+                  return (
+                    <li key={notification.id} className="flex gap-3 px-4 py-3">
+                      <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${color}`} />
+                      <div className="min-w-0 flex-1">
+                        {notification.title && (
+                          <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{notification.title}</p>
+                        )}
+                        <p className="text-sm text-gray-700 dark:text-gray-300 break-words">{notification.message}</p>
+                        <div className="mt-1 flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                          <span>{new Date(notification.createdAt).toLocaleTimeString()}</span>
+                          {notification.link && (
+                            <a
+                              href={notification.link.href}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 text-primary-600 dark:text-primary-400 hover:underline"
+                            >
+                              {notification.link.label}
+                              <ExternalLink className="h-3 w-3" />
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
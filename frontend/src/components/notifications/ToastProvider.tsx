@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { useConfig } from 'wagmi';
+import type { Hash } from 'viem';
+import { Toast, ToastContainer } from '../ui';
+import { ToastContext } from '../../hooks/useToast';
+import type { Notification, ToastOptions } from '../../hooks/useToast';
+import { getTransactions, subscribe } from '../../lib/transactions/txManager';
+import { TrackedTxStatus } from '../../types/transaction';
+
+// Toasts beyond this wait in the queue until one is dismissed
+const MAX_VISIBLE = 4;
+const MAX_NOTIFICATIONS = 20;
+const EXIT_DURATION = 200;
+
+interface QueuedToast extends ToastOptions {
+  id: number;
+  isVisible: boolean;
+}
+
+interface ToastProviderProps {
+  children: ReactNode;
+}
+
+// Gives each toast a stable onClose so its auto-dismiss timer isn't restarted on every render
+const QueuedToastView = ({ toast, onDismiss }: { toast: QueuedToast; onDismiss: (id: number) => void }) => {
+  const { id, isVisible, ...options } = toast;
+  const handleClose = useCallback(() => onDismiss(id), [id, onDismiss]);
+
+  return <Toast {...options} isVisible={isVisible} onClose={handleClose} />;
+};
+
+export const ToastProvider = ({ children }: ToastProviderProps) => {
+  const config = useConfig();
+  const [toasts, setToasts] = useState<QueuedToast[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const nextId = useRef(1);
+
+  const dismiss = useCallback((id: number) => {
+    // Hide first so the exit animation can play, then drop it from the queue
+    setToasts((prev) => prev.map((toast) => (toast.id === id ? { ...toast, isVisible: false } : toast)));
+    setTimeout(() => setToasts((prev) => prev.filter((toast) => toast.id !== id)), EXIT_DURATION);
+  }, []);
+
+  const toast = useCallback((options: ToastOptions) => {
+    const id = nextId.current++;
+    setToasts((prev) => [...prev, { ...options, id, isVisible: true }]);
+    setNotifications((prev) =>
+      [{ ...options, id, createdAt: Date.now(), read: false }, ...prev].slice(0, MAX_NOTIFICATIONS)
+    );
+    return id;
+  }, []);
+
+  // Announce every tracked transaction as it is submitted, confirmed or fails
+  useEffect(() => {
+    const explorerLink = (chainId: number, hash: Hash) => {
+      const explorer = config.chains.find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+      return explorer ? { label: 'View on explorer', href: `${explorer}/tx/${hash}` } : undefined;
+    };
+
+    let previous = new Map(getTransactions().map((tx) => [tx.hash, tx.status]));
+
+    return subscribe(() => {
+      const current = getTransactions();
+
+      for (const tx of current) {
+        const before = previous.get(tx.hash);
+        if (before === tx.status) continue;
+
+        const link = explorerLink(tx.chainId, tx.hash);
+        if (tx.status === TrackedTxStatus.Pending) {
+          toast({ type: 'info', title: 'Transaction submitted', message: tx.label, link });
+        } else if (tx.status === TrackedTxStatus.Confirmed) {
+          toast({ type: 'success', title: 'Transaction confirmed', message: tx.label, link });
+        } else {
+          toast({
+            type: 'error',
+            title: 'Transaction failed',
+            message: tx.error ? `${tx.label}: ${tx.error}` : tx.label,
+            link,
+            duration: 10000,
+          });
+        }
+      }
+
+      previous = new Map(current.map((tx) => [tx.hash, tx.status]));
+    });
+  }, [config, toast]);
+
+  const value = useMemo(
+    () => ({
+      toast,
+      dismiss,
+      notifications,
+      unreadCount: notifications.filter((notification) => !notification.read).length,
+      markAllRead: () => setNotifications((prev) => prev.map((notification) => ({ ...notification, read: true }))),
+      clearNotifications: () => setNotifications([]),
+    }),
+    [toast, dismiss, notifications]
+  );
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <ToastContainer>
+        {toasts.slice(0, MAX_VISIBLE).map((queued) => (
+          <QueuedToastView key={queued.id} toast={queued} onDismiss={dismiss} />
+        ))}
+      </ToastContainer>
+    </ToastContext.Provider>
+  );
+};
@@ -0,0 +1,77 @@
+import { Activity, AlertTriangle, ExternalLink } from 'lucide-react';
+import { Card } from '../ui';
+import { useExplorer } from '../../hooks/useExplorer';
+import { usePriceOracle } from '../../hooks/usePriceOracle';
+import { formatDuration, formatPrice } from '../../lib/utils/format';
+import { PriceStatus } from '../../lib/utils/oracle';
+
+const statusBadges = {
+  [PriceStatus.Fresh]: { label: 'Live', className: 'bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-400' },
+  [PriceStatus.Stale]: { label: 'Stale', className: 'bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-400' },
+  [PriceStatus.Invalid]: { label: 'Invalid', className: 'bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-400' },
+};
+
+const warnings = {
+  [PriceStatus.Stale]: 'The price is more than an hour old.',
+  [PriceStatus.Invalid]: 'The feed is reporting a zero or negative price.',
+};
+
+/** The ETH/USD feed behind ETH collateral: price, age, and whether the contracts will accept it. */
+export const PriceOracleStatus = () => {
+  const oracle = usePriceOracle();
+  const { addressUrl } = useExplorer();
+  const explorerUrl = oracle.oracleAddress ? addressUrl(oracle.oracleAddress) : undefined;
+  const badge = oracle.status ? statusBadges[oracle.status] : undefined;
+
+  return (
+    <Card variant="standard" title="Price Oracle" icon={Activity}>
+      {oracle.isLoading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-8 w-40 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-4 w-24 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{oracle.description ?? 'ETH / USD'}</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                {oracle.price !== undefined && oracle.decimals !== undefined
+                  ? formatPrice(oracle.price, oracle.decimals)
+                  : '—'}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {oracle.age !== undefined ? `Updated ${formatDuration(oracle.age)} ago` : 'Never updated'}
+              </p>
+            </div>
+            {badge && (
+              <span className={`rounded-full px-2.5 py-1 text-xs font-semibold ${badge.className}`}>{badge.label}</span>
+            )}
+          </div>
+
+          {oracle.status && oracle.status !== PriceStatus.Fresh && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-red-900 dark:text-red-100">
+                {warnings[oracle.status]} Until it updates, ETH collateral can't be valued: borrowing against
+                ETH is paused, and ETH-backed loans show no health ratio and can't be liquidated.
+              </p>
+            </div>
+          )}
+
+          {explorerUrl && (
+            <a
+              href={explorerUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs text-primary-600 dark:text-primary-400 hover:underline"
+            >
+              View feed contract
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
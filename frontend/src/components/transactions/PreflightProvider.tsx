@@ -0,0 +1,116 @@
+import { useCallback, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { useChainId, useConfig } from 'wagmi';
+import { formatEther } from 'viem';
+import { AlertCircle, ArrowRight } from 'lucide-react';
+import { Button, Modal, Spinner } from '../ui';
+import { PreflightContext } from '../../hooks/usePreflight';
+import type { PreflightOptions } from '../../hooks/usePreflight';
+import { simulateTransaction } from '../../lib/transactions/preflight';
+import type { PreflightResult } from '../../lib/transactions/preflight';
+
+interface PendingPreflight {
+  id: number;
+  options: PreflightOptions;
+  result?: PreflightResult; // Undefined while the simulation is running
+}
+
+interface PreflightProviderProps {
+  children: ReactNode;
+}
+
+export const PreflightProvider = ({ children }: PreflightProviderProps) => {
+  const config = useConfig();
+  const chainId = useChainId();
+  const [pending, setPending] = useState<PendingPreflight>();
+  const nextId = useRef(1);
+
+  const preflight = useCallback(
+    (options: PreflightOptions) => {
+      const id = nextId.current++;
+      setPending({ id, options });
+
+      simulateTransaction(config, options.request).then((result) =>
+        // Ignore results for a preview that has since been closed or replaced
+        setPending((prev) => (prev?.id === id ? { ...prev, result } : prev))
+      );
+    },
+    [config]
+  );
+
+  const close = useCallback(() => setPending(undefined), []);
+
+  const confirm = () => {
+    pending?.options.onConfirm();
+    close();
+  };
+
+  const nativeSymbol = config.chains.find((chain) => chain.id === chainId)?.nativeCurrency.symbol ?? 'MNT';
+  const result = pending?.result;
+
+  return (
+    <PreflightContext.Provider value={preflight}>
+      {children}
+      <Modal
+        isOpen={!!pending}
+        onClose={close}
+        title={pending?.options.title}
+        footer={
+          <div className="flex justify-end gap-3">
+            <Button variant="secondary" onClick={close}>
+              Cancel
+            </Button>
+            <Button onClick={confirm} disabled={!result?.gasCost}>
+              Confirm in Wallet
+            </Button>
+          </div>
+        }
+      >
+        <div className="space-y-4">
+          <dl className="space-y-3">
+            {pending?.options.changes.map((change) => (
+              <div key={change.label} className="flex items-center justify-between gap-4 text-sm">
+                <dt className="text-gray-600 dark:text-gray-400">{change.label}</dt>
+                <dd className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+                  {change.before !== undefined && (
+                    <>
+                      <span className="text-gray-500 dark:text-gray-500">{change.before}</span>
+                      <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                    </>
+                  )}
+                  {change.after}
+                </dd>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between gap-4 pt-3 text-sm border-t border-gray-200 dark:border-gray-800">
+              <dt className="text-gray-600 dark:text-gray-400">Estimated gas</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">
+                {!result ? (
+                  <span className="flex items-center gap-2 text-gray-500">
+                    <Spinner size="sm" />
+                    Simulating...
+                  </span>
+                ) : result.gasCost !== undefined ? (
+                  `${Number(formatEther(result.gasCost)).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${nativeSymbol}`
+                ) : (
+                  '—'
+                )}
+              </dd>
+            </div>
+          </dl>
+
+          {result?.error && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <AlertCircle className="h-5 w-5 mt-0.5 flex-shrink-0 text-red-600 dark:text-red-400" />
+              <div className="text-sm text-red-900 dark:text-red-100">
+                <p className="font-medium">This transaction would fail</p>
+                <p>{result.error}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      </Modal>
+    </PreflightContext.Provider>
+  );
+};
@@ -1,13 +1,20 @@
 import { useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { CheckCircle, XCircle, AlertTriangle, Info, X } from 'lucide-react';
+import { CheckCircle, XCircle, AlertTriangle, Info, X, ExternalLink } from 'lucide-react';
 import { Button } from './Button';
 
 export type ToastType = 'success' | 'error' | 'warning' | 'info';
 
+export interface ToastLink {
+  label: string;
+  href: string;
+}
+
 export interface ToastProps {
   type: ToastType;
+  title?: string;
   message: string;
+  link?: ToastLink;
   duration?: number;
   onClose: () => void;
   isVisible: boolean;
@@ -44,7 +51,7 @@ const toastConfig = {
   },
 };
 
-export const Toast = ({ type, message, duration = 5000, onClose, isVisible }: ToastProps) => {
+export const Toast = ({ type, title, message, link, duration = 5000, onClose, isVisible }: ToastProps) => {
   const config = toastConfig[type];
   const Icon = config.icon;
 
@@ -69,7 +76,21 @@ export const Toast = ({ type, message, duration = 5000, onClose, isVisible }: To
           transition={{ duration: 0.2 }}
         >
           <Icon className={`h-5 w-5 flex-shrink-0 ${config.iconColor}`} />
-          <p className={`flex-1 text-sm font-medium ${config.textColor}`}>{message}</p>
+          <div className={`flex-1 min-w-0 text-sm ${config.textColor}`}>
+            {title && <p className="font-semibold">{title}</p>}
+            <p className="font-medium break-words">{message}</p>
+            {link && (
+              <a
+                href={link.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-1 inline-flex items-center gap-1 text-xs font-medium underline-offset-2 hover:underline"
+              >
+                {link.label}
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+          </div>
           <Button variant="icon" size="sm" onClick={onClose} className="flex-shrink-0">
             <X className="h-4 w-4" />
           </Button>
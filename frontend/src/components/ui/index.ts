@@ -11,7 +11,7 @@ export { Modal } from './Modal';
 export type { ModalProps } from './Modal';
 
 export { Toast, ToastContainer } from './Toast';
-export type { ToastProps, ToastType } from './Toast';
+export type { ToastProps, ToastType, ToastLink } from './Toast';
 
 export { Spinner } from './Spinner';
 export type { SpinnerProps } from './Spinner';
@@ -1,5 +1,6 @@
 import { ConnectButton as RainbowConnectButton } from '@rainbow-me/rainbowkit';
 import { Button } from '../ui';
+import { NetworkSelector } from './NetworkSelector';
 
 export const ConnectButton = () => {
   return (
@@ -8,7 +9,6 @@ export const ConnectButton = () => {
         account,
         chain,
         openAccountModal,
-        openChainModal,
         openConnectModal,
         mounted,
       }) => {
@@ -35,42 +35,9 @@ export const ConnectButton = () => {
                 );
               }
 
-              if (chain.unsupported) {
-                return (
-                  <Button variant="secondary" onClick={openChainModal}>
-                    Wrong Network
-                  </Button>
-                );
-              }
-
               return (
                 <div className="flex gap-2">
-                  <Button
-                    variant="ghost"
-                    onClick={openChainModal}
-                    className="hidden md:flex"
-                  >
-                    {chain.hasIcon && (
-                      <div
-                        style={{
-                          background: chain.iconBackground,
-                          width: 16,
-                          height: 16,
-                          borderRadius: 999,
-                          overflow: 'hidden',
-                        }}
-                      >
-                        {chain.iconUrl && (
-                          <img
-                            alt={chain.name ?? 'Chain icon'}
-                            src={chain.iconUrl}
-                            style={{ width: 16, height: 16 }}
-                          />
-                        )}
-                      </div>
-                    )}
-                    {chain.name}
-                  </Button>
+                  <NetworkSelector chain={chain} />
 
                   <Button variant="secondary" onClick={openAccountModal}>
                     {account.displayName}
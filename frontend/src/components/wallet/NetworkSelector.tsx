@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { useConfig, useSwitchChain } from 'wagmi';
+import { Check, ChevronDown } from 'lucide-react';
+import { Button } from '../ui';
+import { getDeployment } from '../../lib/contracts/addresses';
+
+// The subset of RainbowKit's connected chain used to label the button
+interface CurrentChain {
+  id: number;
+  name?: string;
+  hasIcon: boolean;
+  iconUrl?: string;
+  iconBackground?: string;
+  unsupported?: boolean;
+}
+
+interface NetworkSelectorProps {
+  chain: CurrentChain;
+}
+
+export const NetworkSelector = ({ chain }: NetworkSelectorProps) => {
+  const config = useConfig();
+  const { switchChain, isPending } = useSwitchChain();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const select = (chainId: number) => {
+    setIsOpen(false);
+    if (chainId !== chain.id) switchChain({ chainId });
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant={chain.unsupported ? 'secondary' : 'ghost'}
+        onClick={() => setIsOpen(!isOpen)}
+        loading={isPending}
+        className={chain.unsupported ? '' : 'hidden md:flex'}
+      >
+        {!chain.unsupported && chain.hasIcon && (
+          <div
+            style={{
+              background: chain.iconBackground,
+              width: 16,
+              height: 16,
+              borderRadius: 999,
+              overflow: 'hidden',
+            }}
+          >
+            {chain.iconUrl && (
+              <img alt={chain.name ?? 'Chain icon'} src={chain.iconUrl} style={{ width: 16, height: 16 }} />
+            )}
+          </div>
+        )}
+        {chain.unsupported ? 'Wrong Network' : chain.name}
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+
+      {isOpen && (
+        <>
+          {/* Click-away backdrop */}
+          <button type="button" className="fixed inset-0 z-40 cursor-default" onClick={() => setIsOpen(false)} aria-hidden />
+          <ul className="absolute right-0 z-50 mt-2 w-64 overflow-hidden rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900 shadow-lg">
+            {config.chains.map((option) => (
+              <li key={option.id}>
+                <button
+                  type="button"
+                  onClick={() => select(option.id)}
+                  className="flex w-full items-center justify-between gap-3 px-4 py-3 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-800"
+                >
+                  <span>
+                    <span className="block font-medium text-gray-900 dark:text-gray-100">{option.name}</span>
+                    {!getDeployment(option.id) && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">Protocol not deployed</span>
+                    )}
+                  </span>
+                  {option.id === chain.id && <Check className="h-4 w-4 text-primary-600 dark:text-primary-400" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import { Lock } from 'lucide-react';
+import { Card } from '../ui';
+
+interface ReadOnlyNoticeProps {
+  action: string; // What is disabled, e.g. "Deposits and withdrawals"
+}
+
+/** Stands in for a write form while another account is being watched. */
+export const ReadOnlyNotice = ({ action }: ReadOnlyNoticeProps) => (
+  <Card variant="standard">
+    <div className="flex items-start gap-3">
+      <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-lg bg-gray-100 dark:bg-gray-800">
+        <Lock className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+      </div>
+      <div>
+        <p className="font-semibold text-gray-900 dark:text-gray-100">Read-only mode</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {action} are disabled while you're watching another address. Stop watching, or connect that
+          wallet, to make changes.
+        </p>
+      </div>
+    </div>
+  </Card>
+);
@@ -2,9 +2,11 @@ import { useAccount, useBalance } from 'wagmi';
 import { Wallet, Copy, ExternalLink } from 'lucide-react';
 import { Card } from '../ui';
 import { useState } from 'react';
+import { useExplorer } from '../../hooks/useExplorer';
 
 export const WalletInfo = () => {
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, chain } = useAccount();
+  const explorer = useExplorer();
   const { data: balance } = useBalance({ address });
   const [copied, setCopied] = useState(false);
 
@@ -43,15 +45,17 @@ export const WalletInfo = () => {
             >
               <Copy className="h-4 w-4" />
             </button>
-            <a
-              href={`https://sepolia.mantlescan.xyz/address/${address}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
-              title="View on explorer"
-            >
-              <ExternalLink className="h-4 w-4" />
-            </a>
+            {explorer.baseUrl && (
+              <a
+                href={explorer.addressUrl(address)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                title="View on explorer"
+              >
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            )}
           </div>
           {copied && (
             <span className="text-xs text-green-600 dark:text-green-400">Copied!</span>
@@ -69,7 +73,7 @@ export const WalletInfo = () => {
         <div className="flex justify-between">
           <span className="text-sm text-gray-600 dark:text-gray-400">Network</span>
           <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-            Mantle Sepolia
+            {chain?.name ?? 'Unsupported network'}
           </span>
         </div>
       </div>
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { isAddress } from 'viem';
+import { Eye, X } from 'lucide-react';
+import { Button, Input } from '../ui';
+import { useViewedAccount } from '../../hooks/useViewedAccount';
+
+/** Address input for viewing any account's positions read-only. */
+export const WatchAddressBar = () => {
+  const { address, isWatching, watch } = useViewedAccount();
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string>();
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    const account = value.trim();
+    if (!isAddress(account)) {
+      setError('Enter a valid 0x address');
+      return;
+    }
+    setError(undefined);
+    setValue('');
+    watch(account);
+  };
+
+  if (isWatching && address) {
+    return (
+      <div className="flex items-center justify-between gap-3 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+        <div className="flex items-center gap-2 text-sm text-amber-900 dark:text-amber-100">
+          <Eye className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Viewing <span className="font-mono font-medium">{`${address.slice(0, 6)}...${address.slice(-4)}`}</span>{' '}
+            in read-only mode
+          </span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => watch(undefined)}>
+          <X className="h-4 w-4" />
+          Stop watching
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="flex items-start gap-2">
+      <Input
+        icon={Eye}
+        placeholder="Watch any address (0x...)"
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        error={error}
+        className="flex-1"
+        aria-label="Address to watch"
+      />
+      <Button type="submit" variant="secondary">
+        Watch
+      </Button>
+    </form>
+  );
+};
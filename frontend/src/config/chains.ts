@@ -21,3 +21,41 @@ export const mantleSepolia = defineChain({
   },
   testnet: true,
 });
+
+export const mantle = defineChain({
+  id: 5000,
+  name: 'Mantle',
+  nativeCurrency: {
+    name: 'MNT',
+    symbol: 'MNT',
+    decimals: 18,
+  },
+  rpcUrls: {
+    default: {
+      http: ['https://rpc.mantle.xyz'],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'Mantlescan',
+      url: 'https://mantlescan.xyz',
+    },
+  },
+});
+
+// Local Foundry node (`anvil`); has no block explorer
+export const anvil = defineChain({
+  id: 31337,
+  name: 'Anvil',
+  nativeCurrency: {
+    name: 'Ether',
+    symbol: 'ETH',
+    decimals: 18,
+  },
+  rpcUrls: {
+    default: {
+      http: ['http://127.0.0.1:8545'],
+    },
+  },
+  testnet: true,
+});
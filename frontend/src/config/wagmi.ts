@@ -1,9 +1,10 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { mantleSepolia } from './chains';
+import { anvil, mantle, mantleSepolia } from './chains';
 
 export const config = getDefaultConfig({
   appName: 'OnLoan',
   projectId: import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || 'YOUR_PROJECT_ID',
-  chains: [mantleSepolia],
+  // Anvil is only offered in development builds
+  chains: import.meta.env.DEV ? [mantleSepolia, mantle, anvil] : [mantleSepolia, mantle],
   ssr: false,
 });
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { isAddress, isAddressEqual } from 'viem';
+import type { Address } from 'viem';
+import { Button, Input } from '../../components/ui';
+
+interface AddressActionFormProps {
+  title: string;
+  description: string;
+  current?: Address;
+  submitLabel: string;
+  onSubmit: (address: Address) => void;
+  disabled?: boolean; // The wallet doesn't own the target contract
+  unavailableReason?: string; // Shown instead of the form when no wallet can make this call
+  isPending?: boolean;
+}
+
+/** Owner form that points a contract at a new address; the change is previewed before signing. */
+export const AddressActionForm = ({
+  title,
+  description,
+  current,
+  submitLabel,
+  onSubmit,
+  disabled = false,
+  unavailableReason,
+  isPending = false,
+}: AddressActionFormProps) => {
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string>();
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    const address = value.trim();
+    if (!isAddress(address)) {
+      setError('Enter a valid 0x address');
+      return;
+    }
+    if (current && isAddressEqual(address, current)) {
+      setError('This is already the current address');
+      return;
+    }
+    setError(undefined);
+    onSubmit(address);
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">{title}</h3>
+        <p className="text-xs text-gray-600 dark:text-gray-400">{description}</p>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-500">
+          Current: <span className="font-mono">{current ?? '—'}</span>
+        </p>
+      </div>
+      {unavailableReason ? (
+        <p className="text-xs text-gray-600 dark:text-gray-400 p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700">
+          {unavailableReason}
+        </p>
+      ) : (
+        <div className="flex items-start gap-2">
+          <Input
+            placeholder="0x..."
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            error={error}
+            disabled={disabled || isPending}
+            className="flex-1"
+            aria-label={title}
+          />
+          <Button type="submit" variant="secondary" loading={isPending} disabled={disabled || isPending || !value}>
+            {submitLabel}
+          </Button>
+        </div>
+      )}
+    </form>
+  );
+};
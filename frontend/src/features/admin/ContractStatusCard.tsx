@@ -0,0 +1,131 @@
+import { AlertTriangle, CheckCircle, Info, Pause, Play } from 'lucide-react';
+import type { Address } from 'viem';
+import { Button, Card } from '../../components/ui';
+import { useExplorer } from '../../hooks/useExplorer';
+import { CONTRACT_LABELS } from '../../lib/contracts/wiring';
+import type { ContractAddresses } from '../../lib/contracts/addresses';
+import type { OwnableContract, WiringStatus } from '../../lib/contracts/wiring';
+
+interface ContractStatusCardProps {
+  contract: OwnableContract;
+  address: Address;
+  owner?: Address;
+  isOwned: boolean; // The connected wallet is this contract's owner
+  ownedBy?: keyof ContractAddresses; // Another protocol contract is the owner, so no wallet can call its admin functions
+  paused?: boolean; // Undefined for contracts that can't be paused
+  wiring: WiringStatus[]; // Links stored on this contract
+  onSetPaused?: (pause: boolean) => void;
+  isPausePending?: boolean;
+}
+
+const AddressValue = ({ address }: { address?: Address }) => {
+  const { addressUrl } = useExplorer();
+  if (!address) return <span className="text-gray-400">—</span>;
+
+  const label = `${address.slice(0, 6)}...${address.slice(-4)}`;
+  const url = addressUrl(address);
+  return url ? (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="font-mono text-primary-600 dark:text-primary-400 hover:underline"
+    >
+      {label}
+    </a>
+  ) : (
+    <span className="font-mono text-gray-900 dark:text-gray-100">{label}</span>
+  );
+};
+
+/** One protocol contract: its owner, paused state and the addresses it points at. */
+export const ContractStatusCard = ({
+  contract,
+  address,
+  owner,
+  isOwned,
+  ownedBy,
+  paused,
+  wiring,
+  onSetPaused,
+  isPausePending = false,
+}: ContractStatusCardProps) => (
+  <Card variant="standard">
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{CONTRACT_LABELS[contract]}</h3>
+          <p className="text-xs">
+            <AddressValue address={address} />
+          </p>
+        </div>
+        {paused !== undefined && (
+          <span
+            className={`rounded-full px-2.5 py-1 text-xs font-semibold ${
+              paused
+                ? 'bg-red-100 dark:bg-red-900/20 text-red-700 dark:text-red-400'
+                : 'bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-400'
+            }`}
+          >
+            {paused ? 'Paused' : 'Active'}
+          </span>
+        )}
+      </div>
+
+      <dl className="space-y-2 text-sm">
+        <div className="flex items-center justify-between gap-4">
+          <dt className="text-gray-600 dark:text-gray-400">Owner</dt>
+          <dd className="flex items-center gap-2">
+            <AddressValue address={owner} />
+            {isOwned && <span className="text-xs text-gray-500 dark:text-gray-400">(you)</span>}
+            {ownedBy && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">({CONTRACT_LABELS[ownedBy]} contract)</span>
+            )}
+          </dd>
+        </div>
+        {wiring.map((link) => (
+          <div key={link.getter} className="flex items-center justify-between gap-4">
+            <dt className="text-gray-600 dark:text-gray-400">{link.label}</dt>
+            <dd className="flex items-center gap-2">
+              <AddressValue address={link.actual} />
+              {link.isCorrect === true && (
+                <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" aria-label="Matches deployment" />
+              )}
+              {link.isCorrect === false && (
+                <AlertTriangle
+                  className="h-4 w-4 text-amber-600 dark:text-amber-400"
+                  aria-label="Differs from the deployed contract"
+                />
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {ownedBy && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700">
+          <Info className="h-4 w-4 text-gray-500 dark:text-gray-400 mt-0.5 flex-shrink-0" />
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Owned by the {CONTRACT_LABELS[ownedBy]} contract, which has no function to forward owner calls, so{' '}
+            {paused !== undefined ? 'pausing and other owner actions' : 'its owner actions'} can't be called from a
+            wallet.
+          </p>
+        </div>
+      )}
+
+      {paused !== undefined && onSetPaused && !ownedBy && (
+        <Button
+          variant={paused ? 'primary' : 'secondary'}
+          size="sm"
+          fullWidth
+          onClick={() => onSetPaused(!paused)}
+          loading={isPausePending}
+          disabled={!isOwned || isPausePending}
+        >
+          {paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+          {paused ? 'Unpause' : 'Pause'}
+        </Button>
+      )}
+    </div>
+  </Card>
+);
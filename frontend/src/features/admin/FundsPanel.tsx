@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { isAddress } from 'viem';
+import type { Address } from 'viem';
+import { Coins } from 'lucide-react';
+import { Button, Card, Input } from '../../components/ui';
+import { formatUsdt, parseAmount } from '../../lib/utils/format';
+import { AdminAction } from '../../types/admin';
+import type { AdminBalances } from '../../types/admin';
+
+interface FundsPanelProps {
+  balances: AdminBalances;
+  onWithdrawFees: () => void;
+  onEmergencyWithdraw: (amount: string) => void;
+  onMint: (to: Address, amount: string) => void;
+  canWithdrawFees: boolean; // Owner of LoanManager
+  canWithdrawFaucet: boolean; // Owner of USDTFaucet
+  canMint: boolean; // Owner of MockUSDT
+  pendingAction?: AdminAction;
+}
+
+/** Owner actions that move USDT: protocol fees, the faucet's reserve and test-token minting. */
+export const FundsPanel = ({
+  balances,
+  onWithdrawFees,
+  onEmergencyWithdraw,
+  onMint,
+  canWithdrawFees,
+  canWithdrawFaucet,
+  canMint,
+  pendingAction,
+}: FundsPanelProps) => {
+  const [withdrawAmount, setWithdrawAmount] = useState('');
+  const [withdrawError, setWithdrawError] = useState<string>();
+  const [mintTo, setMintTo] = useState('');
+  const [mintAmount, setMintAmount] = useState('');
+  const [mintError, setMintError] = useState<string>();
+
+  const submitWithdraw = (event: FormEvent) => {
+    event.preventDefault();
+    const amount = parseAmount(withdrawAmount, 6);
+    if (!amount) {
+      setWithdrawError('Please enter a valid amount');
+      return;
+    }
+    if (amount > balances.faucetBalance) {
+      setWithdrawError('Amount exceeds the faucet balance');
+      return;
+    }
+    setWithdrawError(undefined);
+    onEmergencyWithdraw(withdrawAmount);
+  };
+
+  const submitMint = (event: FormEvent) => {
+    event.preventDefault();
+    const to = mintTo.trim();
+    if (!isAddress(to)) {
+      setMintError('Enter a valid 0x address');
+      return;
+    }
+    if (!parseAmount(mintAmount, 6)) {
+      setMintError('Please enter a valid amount');
+      return;
+    }
+    setMintError(undefined);
+    onMint(to, mintAmount);
+  };
+
+  const isPending = (action: AdminAction) => pendingAction === action;
+
+  return (
+    <Card variant="elevated" title="Funds" icon={Coins}>
+      <div className="space-y-6">
+        {/* Protocol fees */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Protocol Fees</h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {formatUsdt(balances.protocolFees)} USDT collected, sent to the treasury on withdrawal
+            </p>
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={onWithdrawFees}
+            loading={isPending(AdminAction.WithdrawProtocolFees)}
+            disabled={!canWithdrawFees || balances.protocolFees === 0n || !!pendingAction}
+          >
+            Withdraw Fees
+          </Button>
+        </div>
+
+        {/* Faucet reserve */}
+        <form onSubmit={submitWithdraw} className="space-y-3 pt-6 border-t border-gray-200 dark:border-gray-800">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Faucet Emergency Withdraw</h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {formatUsdt(balances.faucetBalance)} USDT in the faucet; withdrawals go to the faucet owner
+            </p>
+          </div>
+          <div className="flex items-start gap-2">
+            <Input
+              type="number"
+              placeholder="0.00"
+              value={withdrawAmount}
+              onChange={(event) => setWithdrawAmount(event.target.value)}
+              error={withdrawError}
+              disabled={!canWithdrawFaucet}
+              className="flex-1"
+              aria-label="Amount to withdraw from the faucet"
+            />
+            <Button
+              type="submit"
+              variant="secondary"
+              loading={isPending(AdminAction.EmergencyWithdraw)}
+              disabled={!canWithdrawFaucet || !withdrawAmount || !!pendingAction}
+            >
+              Withdraw
+            </Button>
+          </div>
+        </form>
+
+        {/* Test token */}
+        <form onSubmit={submitMint} className="space-y-3 pt-6 border-t border-gray-200 dark:border-gray-800">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Mint Test USDT</h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Total supply {formatUsdt(balances.usdtSupply)} USDT
+            </p>
+          </div>
+          <Input
+            placeholder="Recipient (0x...)"
+            value={mintTo}
+            onChange={(event) => setMintTo(event.target.value)}
+            disabled={!canMint}
+            aria-label="Mint recipient"
+          />
+          <div className="flex items-start gap-2">
+            <Input
+              type="number"
+              placeholder="0.00"
+              value={mintAmount}
+              onChange={(event) => setMintAmount(event.target.value)}
+              error={mintError}
+              disabled={!canMint}
+              className="flex-1"
+              aria-label="Amount to mint"
+            />
+            <Button
+              type="submit"
+              variant="secondary"
+              loading={isPending(AdminAction.Mint)}
+              disabled={!canMint || !mintTo || !mintAmount || !!pendingAction}
+            >
+              Mint
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,47 @@
+import { Check } from 'lucide-react';
+
+interface BorrowStepsProps {
+  steps: string[];
+  currentStep: number;
+}
+
+export const BorrowSteps = ({ steps, currentStep }: BorrowStepsProps) => {
+  return (
+    <ol className="flex items-center gap-2">
+      {steps.map((label, index) => {
+        const isComplete = index < currentStep;
+        const isCurrent = index === currentStep;
+
+        return (
+          <li key={label} className="flex flex-1 items-center gap-2">
+            <div
+              className={`flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full text-sm font-bold transition-colors ${
+                isComplete
+                  ? 'bg-primary-600 text-white'
+                  : isCurrent
+                  ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-600 dark:text-primary-400 ring-2 ring-primary-600'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {isComplete ? <Check className="h-4 w-4" /> : index + 1}
+            </div>
+            <span
+              className={`hidden sm:block text-sm font-medium ${
+                isCurrent ? 'text-gray-900 dark:text-gray-100' : 'text-gray-500 dark:text-gray-400'
+              }`}
+            >
+              {label}
+            </span>
+            {index < steps.length - 1 && (
+              <div
+                className={`h-0.5 flex-1 rounded-full ${
+                  isComplete ? 'bg-primary-600' : 'bg-gray-200 dark:bg-gray-700'
+                }`}
+              />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
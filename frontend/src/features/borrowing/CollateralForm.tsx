@@ -0,0 +1,155 @@
+import { Shield, Wallet, Info, AlertCircle } from 'lucide-react';
+import { Card, Button, Input } from '../../components/ui';
+import { CollateralType, COLLATERAL_TYPE_LABELS } from '../../types/loan';
+
+interface CollateralFormProps {
+  collateralType: CollateralType;
+  collateralAmount: string;
+  onCollateralTypeChange: (collateralType: CollateralType) => void;
+  onCollateralAmountChange: (amount: string) => void;
+  requiredCollateralRatio?: number;
+  requiredCollateralUsd?: string;
+  requiredEth?: string;
+  ethPrice?: string;
+  ethPriceUnavailable?: boolean; // The oracle is stale or invalid, so ETH loans would revert
+  ethBalance: string;
+  usdtBalance: string;
+  error?: string;
+}
+
+export const CollateralForm = ({
+  collateralType,
+  collateralAmount,
+  onCollateralTypeChange,
+  onCollateralAmountChange,
+  requiredCollateralRatio,
+  requiredCollateralUsd,
+  requiredEth,
+  ethPrice,
+  ethPriceUnavailable = false,
+  ethBalance,
+  usdtBalance,
+  error,
+}: CollateralFormProps) => {
+  const isEth = collateralType === CollateralType.ETH;
+  const symbol = COLLATERAL_TYPE_LABELS[collateralType];
+  const balance = isEth ? ethBalance : usdtBalance;
+  const minimum = isEth ? requiredEth : requiredCollateralUsd;
+  const isBlocked = isEth && ethPriceUnavailable;
+
+  return (
+    <Card variant="elevated">
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+            Provide Collateral
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Collateral is locked in the CollateralManager and released once the loan is repaid
+          </p>
+        </div>
+
+        {/* Collateral Type Tabs */}
+        <div className="flex gap-2 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl">
+          {[CollateralType.ETH, CollateralType.USDT].map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => onCollateralTypeChange(type)}
+              className={`flex-1 py-2.5 px-4 rounded-lg font-medium text-sm transition-colors ${
+                collateralType === type
+                  ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+              }`}
+            >
+              {COLLATERAL_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+
+        {/* Requirement */}
+        <div className="p-4 rounded-xl bg-gradient-to-br from-primary-50 to-primary-100 dark:from-primary-900/20 dark:to-primary-800/20 border border-primary-200 dark:border-primary-800">
+          <div className="flex items-start gap-3">
+            <Shield className="h-5 w-5 text-primary-600 dark:text-primary-400 flex-shrink-0 mt-0.5" />
+            <div className="space-y-1 flex-1">
+              <p className="text-sm font-medium text-primary-900 dark:text-primary-100">
+                Required Collateral
+                {requiredCollateralRatio !== undefined && ` (${requiredCollateralRatio}% of loan)`}
+              </p>
+              <p className="text-2xl font-bold text-primary-600 dark:text-primary-400">
+                {requiredCollateralUsd !== undefined
+                  ? `$${Number(requiredCollateralUsd).toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+                  : '—'}
+              </p>
+              {isEth && (
+                <p className="text-xs text-primary-800 dark:text-primary-200">
+                  {requiredEth !== undefined && ethPrice !== undefined
+                    ? `≈ ${Number(requiredEth).toFixed(6)} ETH at $${Number(ethPrice).toLocaleString()} / ETH`
+                    : 'Waiting for ETH/USD oracle price'}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {isBlocked && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+            <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-900 dark:text-red-100">
+              The ETH/USD price feed is out of date, so ETH collateral can't be valued and the loan would be
+              rejected. Switch to USDT collateral or wait for the oracle to update.
+            </p>
+          </div>
+        )}
+
+        {/* Amount Input */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Collateral Amount ({symbol})
+          </label>
+          <div className="relative">
+            <Input
+              type="number"
+              placeholder="0.00"
+              value={collateralAmount}
+              onChange={(e) => onCollateralAmountChange(e.target.value)}
+              disabled={isBlocked}
+              className="pr-20"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => minimum !== undefined && onCollateralAmountChange(minimum)}
+              disabled={minimum === undefined || isBlocked}
+              className="absolute right-2 top-1/2 -translate-y-1/2"
+            >
+              MIN
+            </Button>
+          </div>
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+          <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-500">
+            <Wallet className="h-3.5 w-3.5" />
+            <span>
+              Balance: {Number(balance).toLocaleString(undefined, { maximumFractionDigits: 6 })} {symbol}
+            </span>
+          </div>
+        </div>
+
+        {isEth && (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+            <Info className="h-5 w-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-yellow-800 dark:text-yellow-200">
+              ETH collateral is valued with the on-chain oracle. If its value falls below 120% of
+              the loan, the position can be liquidated. Adding a buffer above the minimum is recommended.
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
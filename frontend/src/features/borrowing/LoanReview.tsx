@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { CheckCircle, AlertCircle, FileText } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Card, Button } from '../../components/ui';
+import { formatBasisPoints } from '../../lib/utils/format';
+import { LOAN_TYPE_LABELS, COLLATERAL_TYPE_LABELS } from '../../types/loan';
+import type { LoanType, CollateralType } from '../../types/loan';
+
+interface LoanReviewProps {
+  loanType: LoanType;
+  amount: string;
+  durationDays: string;
+  collateralType: CollateralType;
+  collateralAmount: string;
+  interestRate?: number;
+  totalInterest?: string;
+  needsApproval: boolean;
+  onApprove: () => void;
+  onSubmit: () => void;
+  isApprovePending: boolean;
+  isCreatePending: boolean;
+  isCreateSuccess: boolean;
+  isCreateError: boolean;
+  createError?: string;
+}
+
+export const LoanReview = ({
+  loanType,
+  amount,
+  durationDays,
+  collateralType,
+  collateralAmount,
+  interestRate,
+  totalInterest,
+  needsApproval,
+  onApprove,
+  onSubmit,
+  isApprovePending,
+  isCreatePending,
+  isCreateSuccess,
+  isCreateError,
+  createError,
+}: LoanReviewProps) => {
+  const [now] = useState(() => Date.now());
+  const totalDue = totalInterest !== undefined ? Number(amount) + Number(totalInterest) : undefined;
+  const dueDate = new Date(now + Number(durationDays) * 24 * 60 * 60 * 1000);
+
+  const rows = [
+    { label: 'Loan Type', value: `${LOAN_TYPE_LABELS[loanType]} Loan` },
+    { label: 'Principal', value: `${Number(amount).toLocaleString()} USDT` },
+    { label: 'Duration', value: `${durationDays} days (due ${dueDate.toLocaleDateString()})` },
+    { label: 'Interest Rate', value: interestRate !== undefined ? `${formatBasisPoints(interestRate)}% APR` : '—' },
+    {
+      label: 'Total Interest',
+      value: totalInterest !== undefined ? `${Number(totalInterest).toLocaleString()} USDT` : '—',
+    },
+    {
+      label: 'Collateral',
+      value: `${Number(collateralAmount).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${
+        COLLATERAL_TYPE_LABELS[collateralType]
+      }`,
+    },
+  ];
+
+  return (
+    <Card variant="elevated">
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">Review & Confirm</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Check your loan terms before submitting the transaction
+          </p>
+        </div>
+
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-xl border border-gray-200 dark:border-gray-700">
+          {rows.map((row) => (
+            <div key={row.label} className="flex items-center justify-between px-4 py-3">
+              <span className="text-sm text-gray-600 dark:text-gray-400">{row.label}</span>
+              <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">{row.value}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between p-4 rounded-xl bg-gradient-to-br from-primary-50 to-primary-100 dark:from-primary-900/20 dark:to-primary-800/20 border border-primary-200 dark:border-primary-800">
+          <span className="text-sm font-medium text-primary-900 dark:text-primary-100">Total Due at Maturity</span>
+          <span className="text-2xl font-bold text-primary-600 dark:text-primary-400">
+            {totalDue !== undefined ? `${totalDue.toLocaleString(undefined, { maximumFractionDigits: 6 })} USDT` : '—'}
+          </span>
+        </div>
+
+        <div className="space-y-3">
+          {needsApproval ? (
+            <Button
+              variant="primary"
+              size="lg"
+              fullWidth
+              onClick={onApprove}
+              loading={isApprovePending}
+              disabled={isApprovePending}
+            >
+              {isApprovePending ? 'Approving...' : 'Approve USDT Collateral'}
+            </Button>
+          ) : (
+            <Button
+              variant="primary"
+              size="lg"
+              fullWidth
+              onClick={onSubmit}
+              loading={isCreatePending}
+              disabled={isCreatePending || isCreateSuccess}
+            >
+              {isCreatePending ? 'Creating Loan...' : 'Confirm & Borrow'}
+            </Button>
+          )}
+
+          {isCreateSuccess && (
+            <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
+                <p className="text-sm text-green-900 dark:text-green-100">
+                  Loan created! {Number(amount).toLocaleString()} USDT has been sent to your wallet.
+                </p>
+              </div>
+              <Link to="/my-loans">
+                <Button variant="ghost" size="sm">
+                  <FileText className="h-4 w-4" />
+                  My Loans
+                </Button>
+              </Link>
+            </div>
+          )}
+
+          {isCreateError && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
+              <p className="text-sm text-red-900 dark:text-red-100">{createError ?? 'Loan creation failed. Please try again.'}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
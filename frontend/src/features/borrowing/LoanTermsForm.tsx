@@ -0,0 +1,97 @@
+import { DollarSign, Calendar, Percent } from 'lucide-react';
+import { Card, Input } from '../../components/ui';
+import { formatBasisPoints } from '../../lib/utils/format';
+
+interface LoanTermsFormProps {
+  amount: string;
+  durationDays: string;
+  onAmountChange: (amount: string) => void;
+  onDurationChange: (durationDays: string) => void;
+  minLoanAmount: string;
+  minDurationDays: number;
+  maxDurationDays: number;
+  availableLiquidity: string;
+  interestRate?: number;
+  amountError?: string;
+  durationError?: string;
+}
+
+export const LoanTermsForm = ({
+  amount,
+  durationDays,
+  onAmountChange,
+  onDurationChange,
+  minLoanAmount,
+  minDurationDays,
+  maxDurationDays,
+  availableLiquidity,
+  interestRate,
+  amountError,
+  durationError,
+}: LoanTermsFormProps) => {
+  return (
+    <Card variant="elevated">
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+            Loan Amount & Duration
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Borrow at least {Number(minLoanAmount).toLocaleString()} USDT for {minDurationDays} to{' '}
+            {maxDurationDays} days
+          </p>
+        </div>
+
+        <Input
+          label="Loan Amount (USDT)"
+          type="number"
+          placeholder={minLoanAmount}
+          icon={DollarSign}
+          value={amount}
+          onChange={(e) => onAmountChange(e.target.value)}
+          error={amountError}
+          helperText={`Pool liquidity available: ${Number(availableLiquidity).toLocaleString()} USDT`}
+        />
+
+        <div className="space-y-3">
+          <Input
+            label="Duration (days)"
+            type="number"
+            placeholder="30"
+            icon={Calendar}
+            min={minDurationDays}
+            max={maxDurationDays}
+            step={1}
+            value={durationDays}
+            onChange={(e) => onDurationChange(e.target.value)}
+            error={durationError}
+          />
+          <input
+            type="range"
+            min={minDurationDays}
+            max={maxDurationDays}
+            value={Number(durationDays) || minDurationDays}
+            onChange={(e) => onDurationChange(e.target.value)}
+            className="w-full accent-primary-600"
+          />
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-500">
+            <span>{minDurationDays} days</span>
+            <span>{maxDurationDays} days</span>
+          </div>
+        </div>
+
+        {interestRate !== undefined && (
+          <div className="flex items-center justify-between p-4 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2">
+              <Percent className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              <span className="text-sm text-gray-600 dark:text-gray-400">Annual Interest Rate</span>
+            </div>
+            <p className="text-lg font-bold text-gray-900 dark:text-gray-100">
+              {formatBasisPoints(interestRate)}%
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,78 @@
+import { User, Home, Briefcase, Car } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { LoanType, LOAN_TYPE_LABELS } from '../../types/loan';
+
+interface LoanTypeSelectorProps {
+  value: LoanType;
+  onChange: (loanType: LoanType) => void;
+}
+
+const loanTypeOptions = [
+  {
+    type: LoanType.Personal,
+    icon: User,
+    description: 'Flexible funds for everyday needs',
+  },
+  {
+    type: LoanType.Home,
+    icon: Home,
+    description: 'Lowest rate for home improvements and housing',
+  },
+  {
+    type: LoanType.Business,
+    icon: Briefcase,
+    description: 'Working capital to grow your business',
+  },
+  {
+    type: LoanType.Auto,
+    icon: Car,
+    description: 'Finance a vehicle purchase',
+  },
+];
+
+export const LoanTypeSelector = ({ value, onChange }: LoanTypeSelectorProps) => {
+  return (
+    <Card variant="elevated">
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+            Choose a Loan Type
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Each loan type carries its own fixed annual rate
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {loanTypeOptions.map((option) => {
+            const Icon = option.icon;
+            const isSelected = option.type === value;
+
+            return (
+              <button
+                key={option.type}
+                type="button"
+                onClick={() => onChange(option.type)}
+                className={`flex items-start gap-4 p-4 rounded-xl border text-left transition-all ${
+                  isSelected
+                    ? 'border-primary-600 bg-primary-50 dark:bg-primary-900/20 ring-2 ring-primary-600/20'
+                    : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 hover:border-primary-300 dark:hover:border-primary-700'
+                }`}
+              >
+                <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-xl bg-primary-100 dark:bg-primary-900/40">
+                  <Icon className="h-6 w-6 text-primary-600 dark:text-primary-400" />
+                </div>
+                <div>
+                  <p className="text-base font-semibold text-gray-900 dark:text-gray-100">
+                    {LOAN_TYPE_LABELS[option.type]} Loan
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{option.description}</p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -1,14 +1,25 @@
+import { useState } from 'react';
 import { FileText, Clock, AlertCircle } from 'lucide-react';
 import { Card, Button } from '../../components/ui';
 import { Link } from 'react-router-dom';
-import type { UserBalance } from '../../hooks/useUserBalance';
+import { useViewedAccount } from '../../hooks/useViewedAccount';
+import { formatBasisPoints, formatUsdt } from '../../lib/utils/format';
+import { LoanStatus, LOAN_TYPE_LABELS } from '../../types/loan';
+import type { UserLoan } from '../../types/loan';
 
 interface ActiveLoansCardProps {
-  userBalance: UserBalance;
+  loans: UserLoan[];
+  isLoading: boolean;
 }
 
-export const ActiveLoansCard = ({ userBalance }: ActiveLoansCardProps) => {
-  const { activeLoans, totalBorrowed, isLoading } = userBalance;
+const SECONDS_PER_DAY = 86400;
+
+export const ActiveLoansCard = ({ loans, isLoading }: ActiveLoansCardProps) => {
+  const { isReadOnly, linkTo } = useViewedAccount();
+  const [now] = useState(() => Math.floor(Date.now() / 1000));
+  const active = loans.filter((loan) => loan.status === LoanStatus.Active);
+  const activeLoans = active.length;
+  const totalOutstanding = active.reduce((sum, loan) => sum + loan.outstandingAmount, 0n);
 
   if (isLoading) {
     return (
@@ -34,11 +45,13 @@ export const ActiveLoansCard = ({ userBalance }: ActiveLoansCardProps) => {
           <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
             You don't have any active loans yet. Start borrowing to access liquidity.
           </p>
-          <Link to="/borrow">
-            <Button variant="primary" size="sm">
-              Borrow Now
-            </Button>
-          </Link>
+          {!isReadOnly && (
+            <Link to="/borrow">
+              <Button variant="primary" size="sm">
+                Borrow Now
+              </Button>
+            </Link>
+          )}
         </div>
       </Card>
     );
@@ -49,10 +62,8 @@ export const ActiveLoansCard = ({ userBalance }: ActiveLoansCardProps) => {
       <div className="space-y-4">
         <div className="flex items-center justify-between p-4 rounded-xl bg-gray-50 dark:bg-gray-800">
           <div>
-            <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Total Borrowed</p>
-            <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
-              ${Number(totalBorrowed).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Total Outstanding</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">${formatUsdt(totalOutstanding)}</p>
           </div>
           <div className="text-right">
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Active Loans</p>
@@ -63,34 +74,43 @@ export const ActiveLoansCard = ({ userBalance }: ActiveLoansCardProps) => {
         </div>
 
         <div className="space-y-3">
-          {Array.from({ length: Math.min(activeLoans, 3) }).map((_, i) => (
-            <div
-              key={i}
-              className="flex items-center justify-between p-3 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-700 transition-colors"
-            >
-              <div className="flex items-center gap-3">
-                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary-100 dark:bg-primary-900/20">
-                  <FileText className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+          {active.slice(0, 3).map((loan) => {
+            const daysLeft = Math.ceil((Number(loan.dueDate) - now) / SECONDS_PER_DAY);
+
+            return (
+              <div
+                key={loan.id.toString()}
+                className="flex items-center justify-between p-3 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-700 transition-colors"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary-100 dark:bg-primary-900/20">
+                    <FileText className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {LOAN_TYPE_LABELS[loan.loanType]} Loan #{loan.id.toString()}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      $<span className="font-mono">{formatUsdt(loan.amount)}</span> at{' '}
+                      {formatBasisPoints(loan.interestRate)}% APR
+                    </p>
+                  </div>
                 </div>
-                <div>
-                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                    Personal Loan #{i + 1}
-                  </p>
-                  <p className="text-xs text-gray-600 dark:text-gray-400">
-                    $<span className="font-mono">{(Number(totalBorrowed) / activeLoans).toFixed(2)}</span> at 8% APR
-                  </p>
+                <div
+                  className={`flex items-center gap-2 text-xs ${
+                    loan.isOverdue ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'
+                  }`}
+                >
+                  <Clock className="h-4 w-4" />
+                  <span>{loan.isOverdue ? 'Overdue' : `${Math.max(daysLeft, 0)} days left`}</span>
                 </div>
               </div>
-              <div className="flex items-center gap-2 text-xs text-amber-600 dark:text-amber-400">
-                <Clock className="h-4 w-4" />
-                <span>{30 - i * 5} days left</span>
-              </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
 
         {activeLoans > 3 && (
-          <Link to="/my-loans">
+          <Link to={linkTo('/my-loans')}>
             <Button variant="ghost" size="sm" fullWidth>
               View All Loans ({activeLoans})
             </Button>
@@ -0,0 +1,39 @@
+import { Wallet, AlertCircle } from 'lucide-react';
+import { ConnectButton } from '../../components/wallet/ConnectButton';
+import { WatchAddressBar } from '../../components/wallet/WatchAddressBar';
+
+/** What the Dashboard shows until a wallet is connected. */
+export const DashboardWelcome = () => (
+  <div className="flex items-center justify-center min-h-[600px]">
+    <div className="text-center max-w-md">
+      <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-primary-100 dark:bg-primary-900/20">
+        <Wallet className="h-10 w-10 text-primary-600 dark:text-primary-400" />
+      </div>
+      <h2 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+        Welcome to OnLoan
+      </h2>
+      <p className="text-gray-600 dark:text-gray-400 mb-8">
+        Connect your wallet to access your lending and borrowing dashboard. View your portfolio,
+        track earnings, and manage loans all in one place.
+      </p>
+      <ConnectButton />
+      <div className="mt-6 text-left">
+        <p className="mb-2 text-center text-sm text-gray-500 dark:text-gray-400">or view any address read-only</p>
+        <WatchAddressBar />
+      </div>
+      <div className="mt-8 p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
+        <div className="flex items-start gap-2">
+          <AlertCircle className="h-5 w-5 text-blue-600 dark:text-blue-400 mt-0.5 flex-shrink-0" />
+          <div className="text-left">
+            <p className="text-sm font-semibold text-blue-900 dark:text-blue-100 mb-1">
+              Testing on Mantle Sepolia
+            </p>
+            <p className="text-xs text-blue-700 dark:text-blue-300">
+              This is a testnet deployment. Use the faucet to get free test USDT for testing the protocol.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  </div>
+);
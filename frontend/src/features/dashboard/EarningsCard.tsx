@@ -1,10 +1,14 @@
 import { TrendingUp } from 'lucide-react';
 import { Card } from '../../components/ui';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { formatBasisPoints } from '../../lib/utils/format';
 import type { UserBalance } from '../../hooks/useUserBalance';
 
 interface EarningsCardProps {
   userBalance: UserBalance;
+  lenderApy: bigint; // Basis points
+  borrowRate: bigint; // Basis points
+  utilization: bigint; // Basis points
 }
 
 const mockChartData = [
@@ -16,8 +20,8 @@ const mockChartData = [
   { month: 'Jun', earnings: 342 },
 ];
 
-export const EarningsCard = ({ userBalance }: EarningsCardProps) => {
-  const { earnedInterest, isLoading } = userBalance;
+export const EarningsCard = ({ userBalance, lenderApy, borrowRate, utilization }: EarningsCardProps) => {
+  const { earnedInterest, totalDeposited, isLoading } = userBalance;
 
   if (isLoading) {
     return (
@@ -31,7 +35,8 @@ export const EarningsCard = ({ userBalance }: EarningsCardProps) => {
   }
 
   const currentEarnings = Number(earnedInterest);
-  const projectedMonthly = currentEarnings * 0.08; // 8% estimated monthly
+  // One month of interest on the current deposit at the current lender APY
+  const projectedMonthly = (Number(totalDeposited) * Number(lenderApy)) / 10000 / 12;
 
   return (
     <Card variant="elevated" title="Interest Earned" icon={TrendingUp}>
@@ -56,15 +61,17 @@ export const EarningsCard = ({ userBalance }: EarningsCardProps) => {
         <div className="grid grid-cols-3 gap-4">
           <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
             <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Current APY</p>
-            <p className="text-xl font-bold text-primary-600 dark:text-primary-400">8.5%</p>
+            <p className="text-xl font-bold text-primary-600 dark:text-primary-400">
+              {formatBasisPoints(lenderApy)}%
+            </p>
           </div>
           <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
-            <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Avg APY</p>
-            <p className="text-xl font-bold text-gray-900 dark:text-gray-100">7.2%</p>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Borrow Rate</p>
+            <p className="text-xl font-bold text-gray-900 dark:text-gray-100">{formatBasisPoints(borrowRate)}%</p>
           </div>
           <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
-            <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Best APY</p>
-            <p className="text-xl font-bold text-green-600 dark:text-green-400">10.1%</p>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Utilization</p>
+            <p className="text-xl font-bold text-green-600 dark:text-green-400">{formatBasisPoints(utilization)}%</p>
           </div>
         </div>
 
@@ -1,13 +1,25 @@
 import { TrendingUp, DollarSign, PiggyBank, Wallet } from 'lucide-react';
 import { Card } from '../../components/ui';
+import { formatUnits } from 'viem';
 import type { UserBalance } from '../../hooks/useUserBalance';
+import { LoanStatus } from '../../types/loan';
+import type { UserLoan } from '../../types/loan';
 
 interface PortfolioStatsProps {
   userBalance: UserBalance;
+  loans: UserLoan[];
+  loansLoading?: boolean;
 }
 
-export const PortfolioStats = ({ userBalance }: PortfolioStatsProps) => {
-  const { totalDeposited, earnedInterest, totalBorrowed, availableToWithdraw, isLoading } = userBalance;
+export const PortfolioStats = ({ userBalance, loans, loansLoading = false }: PortfolioStatsProps) => {
+  const { totalDeposited, earnedInterest, availableToWithdraw } = userBalance;
+  const isLoading = userBalance.isLoading || loansLoading;
+
+  // Principal of the loans still open on LoanManager
+  const totalBorrowed = formatUnits(
+    loans.filter((loan) => loan.status === LoanStatus.Active).reduce((sum, loan) => sum + loan.amount, 0n),
+    6
+  );
 
   const stats = [
     {
@@ -0,0 +1,120 @@
+import { CalendarClock, CheckCircle } from 'lucide-react';
+import { Button, Card } from '../../components/ui';
+import { DefaultPhase, getDefaultPhase, getDefaultableAt } from '../../lib/utils/defaults';
+import { formatCollateral, formatDuration, formatTimestamp, formatUsdt } from '../../lib/utils/format';
+import type { DefaultQueueEntry } from '../../types/loan';
+
+interface DefaultQueueTableProps {
+  entries: DefaultQueueEntry[];
+  now?: bigint; // Latest block timestamp
+  isLoading: boolean;
+  onMarkDefault: (entry: DefaultQueueEntry) => void;
+  defaultingId?: bigint;
+  isDefaultPending: boolean;
+}
+
+const columns = ['Loan', 'Borrower', 'Due Date', 'Grace Period', 'Outstanding', 'Collateral', ''];
+
+const phaseStyles = {
+  [DefaultPhase.Current]: 'text-gray-600 dark:text-gray-400',
+  [DefaultPhase.Grace]: 'text-amber-600 dark:text-amber-400',
+  [DefaultPhase.Defaultable]: 'text-red-600 dark:text-red-400',
+};
+
+// Countdown text for the grace-period column
+const describeGrace = (dueDate: bigint, now: bigint) => {
+  const defaultableAt = getDefaultableAt(dueDate);
+  switch (getDefaultPhase(dueDate, now)) {
+    case DefaultPhase.Current:
+      return `Due in ${formatDuration(dueDate - now)}`;
+    case DefaultPhase.Grace:
+      return `${formatDuration(defaultableAt - now)} left`;
+    case DefaultPhase.Defaultable:
+      return `Expired ${formatDuration(now - defaultableAt)} ago`;
+  }
+};
+
+export const DefaultQueueTable = ({
+  entries,
+  now,
+  isLoading,
+  onMarkDefault,
+  defaultingId,
+  isDefaultPending,
+}: DefaultQueueTableProps) => {
+  if (isLoading || now === undefined) {
+    return (
+      <Card variant="elevated" title="Active Loans" icon={CalendarClock}>
+        <div className="animate-pulse space-y-3">
+          <div className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Card variant="elevated" title="Active Loans" icon={CalendarClock}>
+        <div className="text-center py-8">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-green-100 dark:bg-green-900/20">
+            <CheckCircle className="h-8 w-8 text-green-600 dark:text-green-400" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">No Active Loans</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">There is nothing to track right now.</p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card variant="elevated" title="Active Loans" icon={CalendarClock}>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-800 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+              {columns.map((column) => (
+                <th key={column} className="py-3 pr-4 font-medium">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+            {entries.map((entry) => {
+              const phase = getDefaultPhase(entry.dueDate, now);
+
+              return (
+                <tr key={entry.loanId.toString()} className="text-gray-900 dark:text-gray-100">
+                  <td className="py-3 pr-4 font-semibold">#{entry.loanId.toString()}</td>
+                  <td className="py-3 pr-4 font-mono text-xs">
+                    {`${entry.borrower.slice(0, 6)}...${entry.borrower.slice(-4)}`}
+                  </td>
+                  <td className="py-3 pr-4">{formatTimestamp(entry.dueDate)}</td>
+                  <td className={`py-3 pr-4 font-medium ${phaseStyles[phase]}`}>
+                    {describeGrace(entry.dueDate, now)}
+                  </td>
+                  <td className="py-3 pr-4">{formatUsdt(entry.outstandingAmount)} USDT</td>
+                  <td className="py-3 pr-4">{formatCollateral(entry.collateralAmount, entry.collateralType)}</td>
+                  <td className="py-3 text-right">
+                    {phase === DefaultPhase.Defaultable && (
+                      <Button
+                        size="sm"
+                        onClick={() => onMarkDefault(entry)}
+                        loading={isDefaultPending && defaultingId === entry.loanId}
+                        disabled={isDefaultPending}
+                      >
+                        Mark default
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
@@ -8,9 +8,10 @@ interface ClaimCardProps {
   isPending: boolean;
   isSuccess: boolean;
   isError: boolean;
+  error?: string;
 }
 
-export const ClaimCard = ({ faucetData, onClaim, isPending, isSuccess, isError }: ClaimCardProps) => {
+export const ClaimCard = ({ faucetData, onClaim, isPending, isSuccess, isError, error }: ClaimCardProps) => {
   const { canClaim, claimAmount, isLoading } = faucetData;
 
   if (isLoading) {
@@ -79,7 +80,7 @@ export const ClaimCard = ({ faucetData, onClaim, isPending, isSuccess, isError }
             <div className="flex items-center justify-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
               <XCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
               <p className="text-sm font-medium text-red-900 dark:text-red-100">
-                Claim failed. Please try again.
+                {error ?? 'Claim failed. Please try again.'}
               </p>
             </div>
           )}
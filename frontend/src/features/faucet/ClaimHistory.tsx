@@ -1,37 +1,27 @@
+import { useState } from 'react';
 import { ExternalLink, CheckCircle } from 'lucide-react';
 import { Card } from '../../components/ui';
+import { useExplorer } from '../../hooks/useExplorer';
+import { formatUsdt } from '../../lib/utils/format';
+import type { IndexedEvent } from '../../types/transaction';
 
-interface ClaimRecord {
-  timestamp: number;
-  amount: string;
-  txHash: string;
+interface ClaimHistoryProps {
+  claims: IndexedEvent[]; // TokensClaimed events, newest first
 }
 
-export const ClaimHistory = () => {
-  // Mock data - in production, fetch from contract events
-  const mockHistory: ClaimRecord[] = [
-    {
-      timestamp: Date.now() - 25 * 60 * 60 * 1000, // 25 hours ago
-      amount: '1,000',
-      txHash: '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
-    },
-    {
-      timestamp: Date.now() - 49 * 60 * 60 * 1000, // 49 hours ago
-      amount: '1,000',
-      txHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
-    },
-  ];
+export const ClaimHistory = ({ claims }: ClaimHistoryProps) => {
+  const explorer = useExplorer();
+  const [now] = useState(() => Date.now());
 
-  const formatTimestamp = (timestamp: number) => {
-    const now = Date.now();
-    const diff = now - timestamp;
+  const formatTimestamp = (seconds: number) => {
+    const diff = Math.max(0, now - seconds * 1000);
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const days = Math.floor(hours / 24);
 
     if (days > 0) {
       return `${days} day${days > 1 ? 's' : ''} ago`;
     } else {
-      return `${hours} hour${hours > 1 ? 's' : ''} ago`;
+      return `${hours} hour${hours !== 1 ? 's' : ''} ago`;
     }
   };
 
@@ -39,7 +29,7 @@ export const ClaimHistory = () => {
     return `${hash.slice(0, 6)}...${hash.slice(-4)}`;
   };
 
-  if (mockHistory.length === 0) {
+  if (claims.length === 0) {
     return (
       <Card variant="standard">
         <div className="text-center py-12">
@@ -61,9 +51,9 @@ export const ClaimHistory = () => {
     <Card variant="standard">
       <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-6">Claim History</h3>
       <div className="space-y-3">
-        {mockHistory.map((claim, index) => (
+        {claims.map((claim) => (
           <div
-            key={index}
+            key={claim.id}
             className="flex items-center justify-between p-4 rounded-xl border border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-700 transition-colors"
           >
             <div className="flex items-center gap-4">
@@ -72,7 +62,7 @@ export const ClaimHistory = () => {
               </div>
               <div>
                 <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-                  Claimed {claim.amount} USDT
+                  Claimed {formatUsdt(claim.args.amount as bigint)} USDT
                 </p>
                 <p className="text-xs text-gray-600 dark:text-gray-400">
                   {formatTimestamp(claim.timestamp)}
@@ -80,12 +70,12 @@ export const ClaimHistory = () => {
               </div>
             </div>
             <a
-              href={`https://sepolia.mantlescan.xyz/tx/${claim.txHash}`}
+              href={explorer.txUrl(claim.transactionHash)}
               target="_blank"
               rel="noopener noreferrer"
               className="flex items-center gap-2 text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline"
             >
-              <span className="font-mono">{formatTxHash(claim.txHash)}</span>
+              <span className="font-mono">{formatTxHash(claim.transactionHash)}</span>
               <ExternalLink className="h-4 w-4" />
             </a>
           </div>
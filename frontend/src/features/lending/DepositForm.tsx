@@ -10,10 +10,11 @@ interface DepositFormProps {
   onDeposit: (amount: string) => void;
   isApprovePending: boolean;
   isApproveSuccess: boolean;
+  approveError?: string;
   isDepositPending: boolean;
   isDepositSuccess: boolean;
   isDepositError: boolean;
-  refetchAllowance: () => void;
+  depositError?: string;
 }
 
 export const DepositForm = ({
@@ -24,10 +25,11 @@ export const DepositForm = ({
   onDeposit,
   isApprovePending,
   isApproveSuccess,
+  approveError,
   isDepositPending,
   isDepositSuccess,
   isDepositError,
-  refetchAllowance,
+  depositError,
 }: DepositFormProps) => {
   const [amount, setAmount] = useState('');
   const [error, setError] = useState('');
@@ -42,15 +44,6 @@ export const DepositForm = ({
     }
   }, [amount, allowance]);
 
-  // Refetch allowance after approval success
-  useEffect(() => {
-    if (isApproveSuccess) {
-      setTimeout(() => {
-        refetchAllowance();
-      }, 1000);
-    }
-  }, [isApproveSuccess, refetchAllowance]);
-
   // Reset form after successful deposit
   useEffect(() => {
     if (isDepositSuccess) {
@@ -219,11 +212,11 @@ export const DepositForm = ({
             </div>
           )}
 
-          {isDepositError && (
+          {(isDepositError || approveError) && (
             <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
               <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
               <p className="text-sm text-red-900 dark:text-red-100">
-                Deposit failed. Please try again.
+                {isDepositError ? depositError ?? 'Deposit failed. Please try again.' : approveError}
               </p>
             </div>
           )}
@@ -1,21 +1,31 @@
 import { Card } from '../../components/ui';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { TrendingUp } from 'lucide-react';
+import { formatUnits } from 'viem';
+import { formatUsdt } from '../../lib/utils/format';
+import type { IndexedEvent } from '../../types/transaction';
 
 interface EarningsChartProps {
-  earnedInterest: string;
+  earnedInterest: string; // Pending, unclaimed interest
+  currentAPY: string;
+  claims: IndexedEvent[]; // InterestClaimed events, newest first
 }
 
-export const EarningsChart = ({ earnedInterest }: EarningsChartProps) => {
-  // Mock data - in production, fetch historical earnings from contract events or backend
-  const mockData = [
-    { month: 'Jul', earnings: 0 },
-    { month: 'Aug', earnings: 45 },
-    { month: 'Sep', earnings: 112 },
-    { month: 'Oct', earnings: 198 },
-    { month: 'Nov', earnings: 301 },
-    { month: 'Dec', earnings: Number(earnedInterest) || 425 },
-  ];
+export const EarningsChart = ({ earnedInterest, currentAPY, claims }: EarningsChartProps) => {
+  const totalClaimed = claims.reduce((sum, claim) => sum + (claim.args.amount as bigint), 0n);
+  const claimedAmount = Number(formatUnits(totalClaimed, 6));
+  const pendingAmount = Number(earnedInterest);
+
+  // Cumulative claimed interest after each claim, then claimed plus pending as of now
+  let cumulative = 0n;
+  const chartData = [...claims].reverse().map((claim) => {
+    cumulative += claim.args.amount as bigint;
+    return {
+      date: new Date(claim.timestamp * 1000).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      earnings: Number(formatUnits(cumulative, 6)),
+    };
+  });
+  chartData.push({ date: 'Now', earnings: claimedAmount + pendingAmount });
 
   return (
     <Card variant="elevated">
@@ -41,17 +51,17 @@ export const EarningsChart = ({ earnedInterest }: EarningsChartProps) => {
             Total Interest Earned
           </p>
           <p className="text-3xl font-bold text-green-600 dark:text-green-400">
-            {Number(earnedInterest).toLocaleString()} USDT
+            {(claimedAmount + pendingAmount).toLocaleString(undefined, { maximumFractionDigits: 2 })} USDT
           </p>
         </div>
 
         {/* Chart */}
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={mockData}>
+            <LineChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
               <XAxis 
-                dataKey="month" 
+                dataKey="date" 
                 className="text-xs"
                 tick={{ fill: 'currentColor' }}
               />
@@ -86,15 +96,17 @@ export const EarningsChart = ({ earnedInterest }: EarningsChartProps) => {
         <div className="grid grid-cols-3 gap-3">
           <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 text-center">
             <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Current APY</p>
-            <p className="text-lg font-bold text-gray-900 dark:text-gray-100">8.5%</p>
+            <p className="text-lg font-bold text-gray-900 dark:text-gray-100">{currentAPY}%</p>
           </div>
           <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 text-center">
-            <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Avg APY</p>
-            <p className="text-lg font-bold text-gray-900 dark:text-gray-100">7.2%</p>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Claimed</p>
+            <p className="text-lg font-bold text-gray-900 dark:text-gray-100">{formatUsdt(totalClaimed)}</p>
           </div>
           <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 text-center">
-            <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Best APY</p>
-            <p className="text-lg font-bold text-gray-900 dark:text-gray-100">10.1%</p>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">Pending</p>
+            <p className="text-lg font-bold text-gray-900 dark:text-gray-100">
+              {pendingAmount.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+            </p>
           </div>
         </div>
 
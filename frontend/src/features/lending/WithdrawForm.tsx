@@ -8,9 +8,17 @@ interface WithdrawFormProps {
   earnedInterest: string;
   totalPoolLiquidity: string;
   onWithdraw: (amount: string) => void;
+  onWithdrawAll: () => void; // Claims interest, then withdraws the whole deposit
+  canWithdrawAll: boolean; // The pool's idle USDT covers both the deposit and the interest
+  onClaimInterest: () => void;
   isWithdrawPending: boolean;
   isWithdrawSuccess: boolean;
   isWithdrawError: boolean;
+  withdrawError?: string;
+  isClaimPending: boolean;
+  isClaimSuccess: boolean;
+  isClaimError: boolean;
+  claimError?: string;
 }
 
 export const WithdrawForm = ({
@@ -19,9 +27,17 @@ export const WithdrawForm = ({
   earnedInterest,
   totalPoolLiquidity,
   onWithdraw,
+  onWithdrawAll,
+  canWithdrawAll,
+  onClaimInterest,
   isWithdrawPending,
   isWithdrawSuccess,
   isWithdrawError,
+  withdrawError,
+  isClaimPending,
+  isClaimSuccess,
+  isClaimError,
+  claimError,
 }: WithdrawFormProps) => {
   const [amount, setAmount] = useState('');
   const [error, setError] = useState('');
@@ -76,6 +92,9 @@ export const WithdrawForm = ({
     onWithdraw(amount);
   };
 
+  const hasInterest = Number(earnedInterest) > 0;
+  const totalWithdrawable = Number(availableToWithdraw) + Number(earnedInterest);
+
   return (
     <Card variant="elevated">
       <div className="space-y-6">
@@ -109,11 +128,40 @@ export const WithdrawForm = ({
                 <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
                 <span className="text-sm text-green-900 dark:text-green-100">Earned Interest</span>
               </div>
-              <p className="text-lg font-bold text-green-600 dark:text-green-400">
-                {Number(earnedInterest).toLocaleString()} USDT
-              </p>
+              <div className="flex items-center gap-3">
+                <p className="text-lg font-bold text-green-600 dark:text-green-400">
+                  {Number(earnedInterest).toLocaleString(undefined, { maximumFractionDigits: 6 })} USDT
+                </p>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={onClaimInterest}
+                  loading={isClaimPending}
+                  disabled={isClaimPending || !hasInterest}
+                >
+                  Claim
+                </Button>
+              </div>
             </div>
           </div>
+
+          {isClaimSuccess && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+              <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
+              <p className="text-sm text-green-900 dark:text-green-100">
+                Interest claimed! It has been sent to your wallet.
+              </p>
+            </div>
+          )}
+
+          {isClaimError && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
+              <p className="text-sm text-red-900 dark:text-red-100">
+                {claimError ?? 'Claim failed. Please try again.'}
+              </p>
+            </div>
+          )}
         </div>
 
         {/* Amount Input */}
@@ -190,6 +238,23 @@ export const WithdrawForm = ({
             {isWithdrawPending ? 'Withdrawing...' : 'Withdraw USDT'}
           </Button>
 
+          <Button
+            variant="secondary"
+            size="lg"
+            fullWidth
+            onClick={onWithdrawAll}
+            disabled={isWithdrawPending || isClaimPending || totalWithdrawable <= 0 || !canWithdrawAll}
+          >
+            Withdraw All ({totalWithdrawable.toLocaleString(undefined, { maximumFractionDigits: 6 })} USDT incl. interest)
+          </Button>
+
+          {totalWithdrawable > 0 && !canWithdrawAll && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The pool doesn't hold enough idle USDT to pay out your whole deposit and interest right now. Withdraw a
+              smaller amount, or wait for loans to be repaid.
+            </p>
+          )}
+
           {isWithdrawSuccess && (
             <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
               <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
@@ -203,7 +268,7 @@ export const WithdrawForm = ({
             <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
               <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
               <p className="text-sm text-red-900 dark:text-red-100">
-                Withdrawal failed. Please try again.
+                {withdrawError ?? 'Withdrawal failed. Please try again.'}
               </p>
             </div>
           )}
@@ -212,7 +277,7 @@ export const WithdrawForm = ({
         {/* Info */}
         <div className="pt-4 border-t border-gray-200 dark:border-gray-800">
           <p className="text-xs text-gray-500 dark:text-gray-500">
-            Withdrawals are instant and will be sent directly to your connected wallet. Earned interest is included in your available balance.
+            Withdrawals are instant and will be sent directly to your connected wallet. Earned interest is claimed separately; Withdraw All claims it first and then withdraws your full deposit, so your wallet asks you to sign twice.
           </p>
         </div>
       </div>
@@ -0,0 +1,65 @@
+import { CheckCircle, ExternalLink, X } from 'lucide-react';
+import { Button, Card } from '../../components/ui';
+import { useExplorer } from '../../hooks/useExplorer';
+import { formatCollateral } from '../../lib/utils/format';
+import type { LiquidationResult } from '../../types/loan';
+
+interface LiquidationSummaryProps {
+  result: LiquidationResult;
+  onDismiss: () => void;
+}
+
+/** What the last confirmed liquidation seized and paid out. */
+export const LiquidationSummary = ({ result, onDismiss }: LiquidationSummaryProps) => {
+  const { txUrl } = useExplorer();
+  const explorerUrl = txUrl(result.transactionHash);
+
+  const rows = [
+    { label: 'Borrower', value: `${result.borrower.slice(0, 6)}...${result.borrower.slice(-4)}` },
+    { label: 'Collateral seized', value: formatCollateral(result.collateralAmount, result.collateralType) },
+    { label: 'Your reward', value: formatCollateral(result.reward, result.collateralType) },
+    {
+      label: 'Sent to protocol',
+      value: formatCollateral(result.collateralAmount - result.reward, result.collateralType),
+    },
+  ];
+
+  return (
+    <Card variant="standard" className="border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
+            <p className="font-semibold text-green-900 dark:text-green-100">
+              Loan #{result.loanId.toString()} liquidated
+            </p>
+          </div>
+          <Button variant="icon" size="sm" onClick={onDismiss} aria-label="Dismiss">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {rows.map((row) => (
+            <div key={row.label}>
+              <dt className="text-xs text-green-800 dark:text-green-300">{row.label}</dt>
+              <dd className="text-sm font-semibold text-green-900 dark:text-green-100">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {explorerUrl && (
+          <a
+            href={explorerUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-sm font-medium text-green-700 dark:text-green-300 hover:underline"
+          >
+            View transaction
+            <ExternalLink className="h-3.5 w-3.5" />
+          </a>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,100 @@
+import { Gavel, ShieldCheck } from 'lucide-react';
+import { Button, Card } from '../../components/ui';
+import { LoanHealth } from '../loans/LoanHealth';
+import { formatCollateral, formatUsdt } from '../../lib/utils/format';
+import type { LiquidationPosition } from '../../types/loan';
+
+interface LiquidationTableProps {
+  positions: LiquidationPosition[];
+  isLoading: boolean;
+  onLiquidate: (position: LiquidationPosition) => void;
+  liquidatingId?: bigint;
+  isLiquidatePending: boolean;
+}
+
+const columns = ['Loan', 'Borrower', 'Principal', 'Collateral', 'Value', 'Health', 'Reward', ''];
+
+export const LiquidationTable = ({
+  positions,
+  isLoading,
+  onLiquidate,
+  liquidatingId,
+  isLiquidatePending,
+}: LiquidationTableProps) => {
+  if (isLoading) {
+    return (
+      <Card variant="elevated" title="Liquidatable Positions" icon={Gavel}>
+        <div className="animate-pulse space-y-3">
+          <div className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (positions.length === 0) {
+    return (
+      <Card variant="elevated" title="Liquidatable Positions" icon={Gavel}>
+        <div className="text-center py-8">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-green-100 dark:bg-green-900/20">
+            <ShieldCheck className="h-8 w-8 text-green-600 dark:text-green-400" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">Nothing to Liquidate</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Every active loan is at or above 120% health.
+          </p>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card variant="elevated" title="Liquidatable Positions" icon={Gavel}>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-800 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+              {columns.map((column) => (
+                <th key={column} className="py-3 pr-4 font-medium">
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+            {positions.map((position) => (
+              <tr key={position.loanId.toString()} className="text-gray-900 dark:text-gray-100">
+                <td className="py-3 pr-4 font-semibold">#{position.loanId.toString()}</td>
+                <td className="py-3 pr-4 font-mono text-xs">
+                  {`${position.borrower.slice(0, 6)}...${position.borrower.slice(-4)}`}
+                </td>
+                <td className="py-3 pr-4">{formatUsdt(position.principal)} USDT</td>
+                <td className="py-3 pr-4">{formatCollateral(position.collateralAmount, position.collateralType)}</td>
+                <td className="py-3 pr-4">
+                  {position.collateralValue !== undefined ? `$${formatUsdt(position.collateralValue)}` : '—'}
+                </td>
+                <td className="py-3 pr-4">
+                  <LoanHealth healthRatio={position.healthRatio} />
+                </td>
+                <td className="py-3 pr-4 font-medium text-green-600 dark:text-green-400">
+                  {formatCollateral(position.reward, position.collateralType)}
+                </td>
+                <td className="py-3 text-right">
+                  <Button
+                    size="sm"
+                    onClick={() => onLiquidate(position)}
+                    loading={isLiquidatePending && liquidatingId === position.loanId}
+                    disabled={isLiquidatePending}
+                  >
+                    Liquidate
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
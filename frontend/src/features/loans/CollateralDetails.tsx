@@ -0,0 +1,70 @@
+import { Shield } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { formatCollateral, formatPrice, formatUsdt } from '../../lib/utils/format';
+import { calculateLiquidationPrice } from '../../lib/utils/liquidation';
+import { COLLATERAL_TYPE_LABELS, CollateralType, LoanStatus } from '../../types/loan';
+import type { UserLoan } from '../../types/loan';
+import { LoanHealth } from './LoanHealth';
+
+interface CollateralDetailsProps {
+  loan: UserLoan;
+  ethPrice?: { price: bigint; decimals: number }; // Current oracle price, for ETH collateral
+}
+
+const collateralStatus = {
+  [LoanStatus.Active]: 'Locked',
+  [LoanStatus.Repaid]: 'Released',
+  [LoanStatus.Defaulted]: 'Seized',
+};
+
+export const CollateralDetails = ({ loan, ethPrice }: CollateralDetailsProps) => {
+  // Health ratio is collateral value as a percentage of principal
+  const collateralValue =
+    loan.healthRatio !== undefined ? (loan.amount * BigInt(loan.healthRatio)) / 100n : undefined;
+
+  const rows = [
+    { label: 'Asset', value: COLLATERAL_TYPE_LABELS[loan.collateralType] },
+    { label: 'Amount', value: formatCollateral(loan.collateralAmount, loan.collateralType) },
+    { label: 'Value', value: collateralValue !== undefined ? `$${formatUsdt(collateralValue)}` : '—' },
+    { label: 'Status', value: loan.isCollateralLiquidated ? 'Liquidated' : collateralStatus[loan.status] },
+  ];
+  const isLocked = loan.status === LoanStatus.Active && !loan.isCollateralLiquidated;
+
+  // ETH-backed loans become liquidatable once the oracle price falls below this
+  if (loan.collateralType === CollateralType.ETH && isLocked && ethPrice) {
+    const liquidationPrice = calculateLiquidationPrice(loan.collateralAmount, loan.amount, ethPrice.decimals);
+    rows.push(
+      { label: 'ETH Price', value: formatPrice(ethPrice.price, ethPrice.decimals) },
+      { label: 'Liquidation Price', value: formatPrice(liquidationPrice, ethPrice.decimals) }
+    );
+  }
+
+  return (
+    <Card variant="elevated" title="Collateral" icon={Shield}>
+      <div className="space-y-3">
+        {rows.map((row) => (
+          <div key={row.label} className="flex items-center justify-between">
+            <span className="text-sm text-gray-600 dark:text-gray-400">{row.label}</span>
+            <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">{row.value}</span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600 dark:text-gray-400">Health Ratio</span>
+          <LoanHealth healthRatio={loan.healthRatio} isLiquidated={loan.isCollateralLiquidated} />
+        </div>
+        {loan.isCollateralLiquidated && (
+          <p className="pt-3 text-xs text-gray-500 dark:text-gray-500 border-t border-gray-200 dark:border-gray-800">
+            A liquidator seized this collateral through CollateralManager.liquidate after the position fell
+            below 120% health.
+          </p>
+        )}
+        {isLocked && (
+          <p className="pt-3 text-xs text-gray-500 dark:text-gray-500 border-t border-gray-200 dark:border-gray-800">
+            Positions below 120% health can be liquidated. Collateral is released by
+            CollateralManager.releaseCollateral when the loan completes.
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
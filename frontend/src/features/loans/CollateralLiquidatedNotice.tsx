@@ -0,0 +1,20 @@
+import { Gavel } from 'lucide-react';
+import { Card } from '../../components/ui';
+
+/** Stands in for the repayment form once a keeper has liquidated the loan's collateral. */
+export const CollateralLiquidatedNotice = () => (
+  <Card variant="standard" className="border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+    <div className="flex items-start gap-3">
+      <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-lg bg-red-100 dark:bg-red-900/40">
+        <Gavel className="h-5 w-5 text-red-600 dark:text-red-400" />
+      </div>
+      <div>
+        <p className="font-semibold text-red-900 dark:text-red-100">Collateral liquidated</p>
+        <p className="text-sm text-red-800 dark:text-red-200">
+          This loan fell below 120% health and its collateral was seized by a liquidator. It can no longer be
+          repaid: the final repayment would try to release collateral that is gone, so repayments are disabled.
+        </p>
+      </div>
+    </div>
+  </Card>
+);
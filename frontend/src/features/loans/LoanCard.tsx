@@ -0,0 +1,97 @@
+import { User, Home, Briefcase, Car, AlertTriangle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { useViewedAccount } from '../../hooks/useViewedAccount';
+import { Card } from '../../components/ui';
+import { formatBasisPoints, formatCollateral, formatTimestamp, formatUsdt } from '../../lib/utils/format';
+import { LoanStatus, LoanType, LOAN_STATUS_LABELS, LOAN_TYPE_LABELS } from '../../types/loan';
+import type { UserLoan } from '../../types/loan';
+import { LoanHealth } from './LoanHealth';
+
+interface LoanCardProps {
+  loan: UserLoan;
+}
+
+const loanTypeIcons = {
+  [LoanType.Personal]: User,
+  [LoanType.Home]: Home,
+  [LoanType.Business]: Briefcase,
+  [LoanType.Auto]: Car,
+};
+
+const statusStyles = {
+  [LoanStatus.Active]: 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300',
+  [LoanStatus.Repaid]: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  [LoanStatus.Defaulted]: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+export const LoanCard = ({ loan }: LoanCardProps) => {
+  const { linkTo } = useViewedAccount();
+  const Icon = loanTypeIcons[loan.loanType];
+  const isOverdue = loan.status === LoanStatus.Active && loan.isOverdue;
+
+  const fields = [
+    { label: 'Principal', value: `${formatUsdt(loan.amount)} USDT` },
+    { label: 'Collateral', value: formatCollateral(loan.collateralAmount, loan.collateralType) },
+    { label: 'Interest Rate', value: `${formatBasisPoints(loan.interestRate)}% APR` },
+    { label: 'Due Date', value: formatTimestamp(loan.dueDate) },
+    {
+      label: loan.status === LoanStatus.Active ? 'Total Due' : 'Total Repaid',
+      value: `${formatUsdt(loan.status === LoanStatus.Active ? loan.totalDue : loan.totalRepaid)} USDT`,
+    },
+  ];
+
+  return (
+    <Link to={linkTo(`/my-loans/${loan.id}`)} className="block">
+      <Card
+        variant="standard"
+        className={`hover:border-primary-300 dark:hover:border-primary-700 ${
+          isOverdue ? 'border-red-300 dark:border-red-800 bg-red-50/50 dark:bg-red-900/10' : ''
+        }`}
+      >
+        <div className="space-y-4">
+          {/* Header */}
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary-100 dark:bg-primary-900/20">
+                <Icon className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+              </div>
+              <div>
+                <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                  {LOAN_TYPE_LABELS[loan.loanType]} Loan #{loan.id.toString()}
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {loan.durationDays.toString()} days from {formatTimestamp(loan.startTime)}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {isOverdue && (
+                <span className="flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-red-600 text-white">
+                  <AlertTriangle className="h-3.5 w-3.5" />
+                  Overdue
+                </span>
+              )}
+              <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${statusStyles[loan.status]}`}>
+                {LOAN_STATUS_LABELS[loan.status]}
+              </span>
+            </div>
+          </div>
+
+          {/* Details */}
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {fields.map((field) => (
+              <div key={field.label}>
+                <p className="text-xs text-gray-500 dark:text-gray-500 mb-1">{field.label}</p>
+                <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{field.value}</p>
+              </div>
+            ))}
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-500 mb-1">Health</p>
+              <LoanHealth healthRatio={loan.healthRatio} isLiquidated={loan.isCollateralLiquidated} />
+            </div>
+          </div>
+        </div>
+      </Card>
+    </Link>
+  );
+};
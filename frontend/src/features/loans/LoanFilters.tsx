@@ -0,0 +1,36 @@
+import { LoanStatus, LOAN_STATUS_LABELS } from '../../types/loan';
+import type { UserLoan } from '../../types/loan';
+
+export type LoanFilter = LoanStatus | 'all';
+
+interface LoanFiltersProps {
+  loans: UserLoan[];
+  value: LoanFilter;
+  onChange: (filter: LoanFilter) => void;
+}
+
+const filters: LoanFilter[] = ['all', LoanStatus.Active, LoanStatus.Repaid, LoanStatus.Defaulted];
+
+export const LoanFilters = ({ loans, value, onChange }: LoanFiltersProps) => {
+  const countFor = (filter: LoanFilter) =>
+    filter === 'all' ? loans.length : loans.filter((loan) => loan.status === filter).length;
+
+  return (
+    <div className="flex gap-2 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl w-fit">
+      {filters.map((filter) => (
+        <button
+          key={filter}
+          type="button"
+          onClick={() => onChange(filter)}
+          className={`py-2 px-4 rounded-lg font-medium text-sm transition-colors ${
+            value === filter
+              ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+              : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+          }`}
+        >
+          {filter === 'all' ? 'All' : LOAN_STATUS_LABELS[filter]} ({countFor(filter)})
+        </button>
+      ))}
+    </div>
+  );
+};
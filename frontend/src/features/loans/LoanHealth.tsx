@@ -0,0 +1,27 @@
+import { LIQUIDATION_THRESHOLD } from '../../lib/utils/liquidation';
+
+// Below this the position is flagged as at risk before it becomes liquidatable
+const WARNING_THRESHOLD = 140;
+
+interface LoanHealthProps {
+  healthRatio?: number;
+  isLiquidated?: boolean; // The collateral has been seized, so there is no health to show
+}
+
+export const LoanHealth = ({ healthRatio, isLiquidated = false }: LoanHealthProps) => {
+  if (isLiquidated) {
+    return <span className="text-sm font-semibold text-red-600 dark:text-red-400">Liquidated</span>;
+  }
+  if (healthRatio === undefined) {
+    return <span className="text-sm font-semibold text-gray-400 dark:text-gray-500">—</span>;
+  }
+
+  const color =
+    healthRatio < LIQUIDATION_THRESHOLD
+      ? 'text-red-600 dark:text-red-400'
+      : healthRatio < WARNING_THRESHOLD
+        ? 'text-amber-600 dark:text-amber-400'
+        : 'text-green-600 dark:text-green-400';
+
+  return <span className={`text-sm font-semibold ${color}`}>{healthRatio}%</span>;
+};
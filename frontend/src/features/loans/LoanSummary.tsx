@@ -0,0 +1,68 @@
+import { AlertTriangle } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { formatBasisPoints, formatTimestamp, formatUsdt } from '../../lib/utils/format';
+import { LoanStatus } from '../../types/loan';
+import type { UserLoan } from '../../types/loan';
+
+interface LoanSummaryProps {
+  loan: UserLoan;
+}
+
+export const LoanSummary = ({ loan }: LoanSummaryProps) => {
+  const isOverdue = loan.status === LoanStatus.Active && loan.isOverdue;
+  const repaidPercent = loan.totalDue > 0n ? Number((loan.totalRepaid * 10000n) / loan.totalDue) / 100 : 0;
+
+  const rows = [
+    { label: 'Principal', value: `${formatUsdt(loan.amount)} USDT` },
+    { label: 'Interest', value: `${formatUsdt(loan.totalDue - loan.amount)} USDT` },
+    { label: 'Total Due', value: `${formatUsdt(loan.totalDue)} USDT` },
+    { label: 'Interest Rate', value: `${formatBasisPoints(loan.interestRate)}% APR` },
+    { label: 'Start Date', value: formatTimestamp(loan.startTime) },
+    { label: 'Due Date', value: formatTimestamp(loan.dueDate) },
+  ];
+
+  return (
+    <Card variant="elevated">
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Outstanding</p>
+            <p className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              {formatUsdt(loan.outstandingAmount)} USDT
+            </p>
+          </div>
+          {isOverdue && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400" />
+              <p className="text-sm text-red-900 dark:text-red-100">
+                Past due. Repay now to avoid default.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Repayment Progress */}
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600 dark:text-gray-400">Repaid</span>
+            <span className="font-medium text-gray-900 dark:text-gray-100">
+              {formatUsdt(loan.totalRepaid)} / {formatUsdt(loan.totalDue)} USDT
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div className="h-full rounded-full bg-primary-600" style={{ width: `${Math.min(repaidPercent, 100)}%` }} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {rows.map((row) => (
+            <div key={row.label}>
+              <p className="text-xs text-gray-500 dark:text-gray-500 mb-1">{row.label}</p>
+              <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{row.value}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+};
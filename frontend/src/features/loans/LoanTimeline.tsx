@@ -0,0 +1,85 @@
+import { FileText, CreditCard, CheckCircle, ExternalLink, Clock } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { useExplorer } from '../../hooks/useExplorer';
+import { formatUsdt } from '../../lib/utils/format';
+import type { LoanEvent } from '../../types/loan';
+
+interface LoanTimelineProps {
+  events: LoanEvent[];
+  isLoading: boolean;
+}
+
+const eventConfig = {
+  created: {
+    icon: FileText,
+    title: 'Loan Created',
+    color: 'bg-primary-100 text-primary-600 dark:bg-primary-900/30 dark:text-primary-400',
+  },
+  repaid: {
+    icon: CreditCard,
+    title: 'Repayment',
+    color: 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400',
+  },
+  completed: {
+    icon: CheckCircle,
+    title: 'Loan Completed',
+    color: 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400',
+  },
+};
+
+export const LoanTimeline = ({ events, isLoading }: LoanTimelineProps) => {
+  const explorer = useExplorer();
+
+  return (
+    <Card variant="elevated" title="Timeline" icon={Clock}>
+      {isLoading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No events found for this loan.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-4 space-y-6">
+          {events.map((event) => {
+            const { icon: Icon, title, color } = eventConfig[event.type];
+
+            return (
+              <li key={`${event.transactionHash}-${event.type}`} className="ml-6">
+                <span
+                  className={`absolute -left-4 flex h-8 w-8 items-center justify-center rounded-full ring-4 ring-white dark:ring-gray-900 ${color}`}
+                >
+                  <Icon className="h-4 w-4" />
+                </span>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{title}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      {new Date(Number(event.timestamp) * 1000).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                      {formatUsdt(event.amount)} USDT
+                    </span>
+                    {explorer.baseUrl && (
+                      <a
+                        href={explorer.txUrl(event.transactionHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                        title="View on explorer"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </Card>
+  );
+};
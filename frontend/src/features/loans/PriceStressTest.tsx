@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { TrendingDown } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { LoanHealth } from './LoanHealth';
+import { formatCollateral, formatPrice } from '../../lib/utils/format';
+import {
+  LIQUIDATION_THRESHOLD,
+  applyPriceShock,
+  calculateEthCollateralValue,
+  calculateHealthRatio,
+  calculateLiquidationPrice,
+} from '../../lib/utils/liquidation';
+import { CollateralType, LoanStatus } from '../../types/loan';
+import type { UserLoan } from '../../types/loan';
+
+interface PriceStressTestProps {
+  loans: UserLoan[];
+  price: bigint; // Current oracle price
+  priceDecimals: number;
+}
+
+const MIN_SHOCK = 10;
+const MAX_SHOCK = 80;
+
+/** Replays the health of every active loan still backed by ETH under a simulated ETH price drop. */
+export const PriceStressTest = ({ loans, price, priceDecimals }: PriceStressTestProps) => {
+  const [shock, setShock] = useState(30);
+  const shockedPrice = applyPriceShock(price, shock);
+
+  const healthAt = (loan: UserLoan, atPrice: bigint) =>
+    calculateHealthRatio(calculateEthCollateralValue(loan.collateralAmount, atPrice, priceDecimals), loan.amount);
+
+  // Highest liquidation price first: those loans break on the smallest drop. Loans a keeper has
+  // already liquidated have no collateral left to stress
+  const rows = loans
+    .filter(
+      (loan) =>
+        loan.status === LoanStatus.Active && loan.collateralType === CollateralType.ETH && !loan.isCollateralLiquidated
+    )
+    .map((loan) => {
+      const liquidationPrice = calculateLiquidationPrice(loan.collateralAmount, loan.amount, priceDecimals);
+      return {
+        loan,
+        liquidationPrice,
+        // Price drop (in %) that would make the loan liquidatable
+        breakingDrop: price > liquidationPrice ? Number(((price - liquidationPrice) * 10000n) / price) / 100 : 0,
+        healthNow: loan.healthRatio ?? healthAt(loan, price),
+        healthAfter: healthAt(loan, shockedPrice),
+      };
+    })
+    .sort((a, b) => (a.liquidationPrice === b.liquidationPrice ? 0 : a.liquidationPrice > b.liquidationPrice ? -1 : 1));
+
+  if (rows.length === 0) return null;
+
+  const broken = rows.filter((row) => row.healthAfter < LIQUIDATION_THRESHOLD).length;
+
+  return (
+    <Card variant="elevated" title="ETH Price Stress Test" icon={TrendingDown}>
+      <div className="space-y-6">
+        {/* Shock slider */}
+        <div className="space-y-3">
+          <div className="flex items-end justify-between gap-4">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Current ETH price</p>
+              <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                {formatPrice(price, priceDecimals)}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-xs text-gray-500 dark:text-gray-400">After a −{shock}% shock</p>
+              <p className="text-lg font-semibold text-red-600 dark:text-red-400">
+                {formatPrice(shockedPrice, priceDecimals)}
+              </p>
+            </div>
+          </div>
+          <input
+            type="range"
+            min={MIN_SHOCK}
+            max={MAX_SHOCK}
+            step={5}
+            value={shock}
+            onChange={(event) => setShock(Number(event.target.value))}
+            className="w-full accent-primary-600"
+            aria-label="Price shock"
+          />
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>−{MIN_SHOCK}%</span>
+            <span>−{MAX_SHOCK}%</span>
+          </div>
+        </div>
+
+        <p
+          className={`text-sm font-medium ${
+            broken > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+          }`}
+        >
+          {broken === 0
+            ? `All ${rows.length} ETH-backed ${rows.length === 1 ? 'loan survives' : 'loans survive'} this drop.`
+            : `${broken} of ${rows.length} ETH-backed ${rows.length === 1 ? 'loan' : 'loans'} would be liquidatable.`}
+        </p>
+
+        {/* Per-loan results */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-800 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-4 font-medium">Loan</th>
+                <th className="py-2 pr-4 font-medium">Collateral</th>
+                <th className="py-2 pr-4 font-medium">Liquidation Price</th>
+                <th className="py-2 pr-4 font-medium">Breaks At</th>
+                <th className="py-2 pr-4 font-medium">Health Now</th>
+                <th className="py-2 font-medium">After Shock</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+              {rows.map((row) => (
+                <tr key={row.loan.id.toString()} className="text-gray-900 dark:text-gray-100">
+                  <td className="py-2 pr-4 font-semibold">#{row.loan.id.toString()}</td>
+                  <td className="py-2 pr-4">{formatCollateral(row.loan.collateralAmount, CollateralType.ETH)}</td>
+                  <td className="py-2 pr-4">{formatPrice(row.liquidationPrice, priceDecimals)}</td>
+                  <td className="py-2 pr-4">{row.breakingDrop > 0 ? `−${row.breakingDrop.toFixed(2)}%` : 'Now'}</td>
+                  <td className="py-2 pr-4">
+                    <LoanHealth healthRatio={row.healthNow} />
+                  </td>
+                  <td className="py-2">
+                    <LoanHealth healthRatio={row.healthAfter} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { formatUnits } from 'viem';
+import { Wallet, CheckCircle, AlertCircle, Info } from 'lucide-react';
+import { Card, Button, Input } from '../../components/ui';
+import { formatUsdt, parseAmount } from '../../lib/utils/format';
+
+interface RepaymentFormProps {
+  outstandingAmount: bigint;
+  totalDue: bigint;
+  usdtBalance: bigint;
+  allowance: bigint;
+  onApprove: (amount: bigint) => void;
+  onRepay: (amount: bigint) => void;
+  isApprovePending: boolean;
+  isRepayPending: boolean;
+  isRepaySuccess: boolean;
+  isRepayError: boolean;
+  repayError?: string;
+}
+
+export const RepaymentForm = ({
+  outstandingAmount,
+  totalDue,
+  usdtBalance,
+  allowance,
+  onApprove,
+  onRepay,
+  isApprovePending,
+  isRepayPending,
+  isRepaySuccess,
+  isRepayError,
+  repayError,
+}: RepaymentFormProps) => {
+  const [amount, setAmount] = useState('');
+
+  const amountInUnits = parseAmount(amount, 6);
+  const needsApproval = !!amountInUnits && allowance < amountInUnits;
+  const isFullRepayment = !!amountInUnits && amountInUnits >= outstandingAmount;
+
+  const getError = () => {
+    if (!amount) return undefined;
+    if (!amountInUnits) return 'Please enter a valid amount';
+    if (amountInUnits > outstandingAmount) return 'Amount exceeds the outstanding balance';
+    if (amountInUnits > usdtBalance) return 'Insufficient USDT balance';
+    return undefined;
+  };
+
+  const error = getError();
+
+  // repayLoan caps payments at getTotalDue minus what was already repaid,
+  // so paying the outstanding amount settles the full total due
+  const handleMaxClick = () => setAmount(formatUnits(outstandingAmount, 6));
+
+  return (
+    <Card variant="elevated">
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">Repay Loan</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Make a partial payment or settle the full {formatUsdt(totalDue)} USDT due
+          </p>
+        </div>
+
+        {/* Balance Display */}
+        <div className="p-4 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Wallet className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              <span className="text-sm text-gray-600 dark:text-gray-400">Your Balance</span>
+            </div>
+            <p className="text-lg font-bold text-gray-900 dark:text-gray-100">{formatUsdt(usdtBalance)} USDT</p>
+          </div>
+        </div>
+
+        {/* Amount Input */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Repayment Amount</label>
+          <div className="relative">
+            <Input
+              type="number"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="pr-20"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleMaxClick}
+              className="absolute right-2 top-1/2 -translate-y-1/2"
+            >
+              MAX
+            </Button>
+          </div>
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              <span>{error}</span>
+            </div>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-500">
+            Outstanding: {formatUsdt(outstandingAmount)} USDT
+          </p>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="space-y-3">
+          {needsApproval ? (
+            <Button
+              variant="primary"
+              size="lg"
+              fullWidth
+              onClick={() => amountInUnits && onApprove(amountInUnits)}
+              loading={isApprovePending}
+              disabled={isApprovePending || !!error}
+            >
+              {isApprovePending ? 'Approving...' : 'Approve USDT'}
+            </Button>
+          ) : (
+            <Button
+              variant="primary"
+              size="lg"
+              fullWidth
+              onClick={() => amountInUnits && onRepay(amountInUnits)}
+              loading={isRepayPending}
+              disabled={isRepayPending || !amountInUnits || !!error}
+            >
+              {isRepayPending ? 'Repaying...' : isFullRepayment ? 'Repay in Full' : 'Make Partial Payment'}
+            </Button>
+          )}
+
+          {isRepaySuccess && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+              <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
+              <p className="text-sm text-green-900 dark:text-green-100">Repayment successful!</p>
+            </div>
+          )}
+
+          {isRepayError && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
+              <p className="text-sm text-red-900 dark:text-red-100">{repayError ?? 'Repayment failed. Please try again.'}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Info */}
+        <div className="flex items-start gap-2 pt-4 border-t border-gray-200 dark:border-gray-800">
+          <Info className="h-4 w-4 text-gray-400 mt-0.5 flex-shrink-0" />
+          <p className="text-xs text-gray-500 dark:text-gray-500">
+            Once the loan is fully repaid, your collateral is returned to your wallet by
+            CollateralManager.releaseCollateral in the same transaction.
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
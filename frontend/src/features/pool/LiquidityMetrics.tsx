@@ -0,0 +1,44 @@
+import { Droplets } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { formatBasisPoints, formatUsdt } from '../../lib/utils/format';
+import type { PoolStats } from '../../types/pool';
+
+interface LiquidityMetricsProps {
+  stats: PoolStats;
+}
+
+export const LiquidityMetrics = ({ stats }: LiquidityMetricsProps) => {
+  const borrowedPercent = Number(stats.utilization) / 100;
+
+  return (
+    <Card variant="elevated" title="Liquidity" icon={Droplets}>
+      <div className="space-y-4">
+        <div className="h-3 rounded-full bg-cyan-100 dark:bg-cyan-900/30 overflow-hidden">
+          <div className="h-full rounded-full bg-orange-500" style={{ width: `${Math.min(borrowedPercent, 100)}%` }} />
+        </div>
+
+        <div className="flex justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <span className="h-2.5 w-2.5 rounded-full bg-orange-500" />
+            <span className="text-gray-600 dark:text-gray-400">Borrowed</span>
+            <span className="font-semibold text-gray-900 dark:text-gray-100">
+              {formatBasisPoints(stats.utilization)}%
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="h-2.5 w-2.5 rounded-full bg-cyan-200 dark:bg-cyan-800" />
+            <span className="text-gray-600 dark:text-gray-400">Available</span>
+            <span className="font-semibold text-gray-900 dark:text-gray-100">
+              {formatUsdt(stats.availableLiquidity)} USDT
+            </span>
+          </div>
+        </div>
+
+        <p className="pt-4 text-xs text-gray-500 dark:text-gray-500 border-t border-gray-200 dark:border-gray-800">
+          Available liquidity is the USDT held by the pool, including repaid interest. New loans and lender
+          withdrawals are limited by it.
+        </p>
+      </div>
+    </Card>
+  );
+};
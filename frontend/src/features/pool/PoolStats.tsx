@@ -0,0 +1,92 @@
+import { PiggyBank, HandCoins, Droplets, Gauge, Percent } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { formatBasisPoints, formatUsdt } from '../../lib/utils/format';
+import type { PoolStats as PoolStatsData } from '../../types/pool';
+
+interface PoolStatsProps {
+  stats: PoolStatsData;
+  isLoading: boolean;
+}
+
+export const PoolStats = ({ stats, isLoading }: PoolStatsProps) => {
+  const items = [
+    {
+      title: 'Total Deposits',
+      value: `${formatUsdt(stats.totalDeposits)} USDT`,
+      icon: PiggyBank,
+      color: 'text-blue-600 dark:text-blue-400',
+      bg: 'bg-blue-100 dark:bg-blue-900/20',
+      note: 'Supplied by lenders',
+    },
+    {
+      title: 'Total Borrowed',
+      value: `${formatUsdt(stats.totalBorrowed)} USDT`,
+      icon: HandCoins,
+      color: 'text-orange-600 dark:text-orange-400',
+      bg: 'bg-orange-100 dark:bg-orange-900/20',
+      note: 'Outstanding principal',
+    },
+    {
+      title: 'Available Liquidity',
+      value: `${formatUsdt(stats.availableLiquidity)} USDT`,
+      icon: Droplets,
+      color: 'text-cyan-600 dark:text-cyan-400',
+      bg: 'bg-cyan-100 dark:bg-cyan-900/20',
+      note: 'Ready to lend or withdraw',
+    },
+    {
+      title: 'Utilization',
+      value: `${formatBasisPoints(stats.utilization)}%`,
+      icon: Gauge,
+      color: 'text-purple-600 dark:text-purple-400',
+      bg: 'bg-purple-100 dark:bg-purple-900/20',
+      note: 'Borrowed / deposits',
+    },
+    {
+      title: 'Current APY',
+      value: `${formatBasisPoints(stats.currentApy)}%`,
+      icon: Percent,
+      color: 'text-green-600 dark:text-green-400',
+      bg: 'bg-green-100 dark:bg-green-900/20',
+      note: `Borrowers pay ${formatBasisPoints(stats.borrowRate)}%`,
+    },
+  ];
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+        {items.map((item) => (
+          <Card key={item.title} variant="standard">
+            <div className="animate-pulse space-y-3">
+              <div className="h-12 w-12 rounded-xl bg-gray-200 dark:bg-gray-700" />
+              <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-24" />
+              <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32" />
+            </div>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+      {items.map((item) => {
+        const Icon = item.icon;
+        return (
+          <Card key={item.title} variant="elevated" className="hover:shadow-lg transition-shadow">
+            <div className="space-y-3">
+              <div className={`flex h-12 w-12 items-center justify-center rounded-xl ${item.bg}`}>
+                <Icon className={`h-6 w-6 ${item.color}`} />
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">{item.title}</p>
+                <p className="text-xl font-bold text-gray-900 dark:text-gray-100">{item.value}</p>
+                <p className="text-xs mt-1 text-gray-500 dark:text-gray-500">{item.note}</p>
+              </div>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
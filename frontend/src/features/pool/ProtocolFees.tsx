@@ -0,0 +1,52 @@
+import { Landmark, ExternalLink } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { useExplorer } from '../../hooks/useExplorer';
+import { formatBasisPoints, formatUsdt } from '../../lib/utils/format';
+import type { PoolStats } from '../../types/pool';
+
+interface ProtocolFeesProps {
+  stats: PoolStats;
+}
+
+export const ProtocolFees = ({ stats }: ProtocolFeesProps) => {
+  const explorer = useExplorer();
+  const treasury = stats.protocolTreasury;
+
+  return (
+    <Card variant="elevated" title="Protocol Fees" icon={Landmark}>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600 dark:text-gray-400">Fee on Interest</span>
+          <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+            {formatBasisPoints(stats.protocolFeePercentage)}%
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600 dark:text-gray-400">Fees Collected</span>
+          <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+            {formatUsdt(stats.protocolFeesCollected)} USDT
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600 dark:text-gray-400">Treasury</span>
+          {treasury ? (
+            <a
+              href={explorer.addressUrl(treasury)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 font-mono text-sm font-semibold text-gray-900 dark:text-gray-100 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+            >
+              {`${treasury.slice(0, 6)}...${treasury.slice(-4)}`}
+              <ExternalLink className="h-3.5 w-3.5" />
+            </a>
+          ) : (
+            <span className="text-sm font-semibold text-gray-400">—</span>
+          )}
+        </div>
+        <p className="pt-3 text-xs text-gray-500 dark:text-gray-500 border-t border-gray-200 dark:border-gray-800">
+          The fee is taken from each repayment's interest; the rest goes to lenders.
+        </p>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,133 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Activity } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { formatBasisPoints } from '../../lib/utils/format';
+import {
+  BASIS_POINTS,
+  OPTIMAL_UTILIZATION,
+  calculateBorrowRate,
+  calculateLenderAPY,
+} from '../../lib/utils/interestCalculator';
+
+interface RateModelChartProps {
+  utilization: bigint; // Basis points
+  borrowRate: bigint; // Basis points
+  lenderApy: bigint; // Basis points
+}
+
+const toPercent = (bps: bigint) => Number(bps) / 100;
+
+// Sample the curve every 1% of utilization; the kink falls on a sample point
+const curveData = Array.from({ length: 101 }, (_, i) => {
+  const utilization = (BASIS_POINTS * BigInt(i)) / 100n;
+  const borrowRate = calculateBorrowRate(utilization);
+
+  return {
+    utilization: toPercent(utilization),
+    borrowRate: toPercent(borrowRate),
+    lenderApy: toPercent(calculateLenderAPY(utilization, borrowRate)),
+  };
+});
+
+export const RateModelChart = ({ utilization, borrowRate, lenderApy }: RateModelChartProps) => {
+  const stats = [
+    {
+      label: 'Current Utilization',
+      value: `${formatBasisPoints(utilization)}%`,
+      color: 'text-gray-900 dark:text-gray-100',
+    },
+    {
+      label: 'Borrow Rate',
+      value: `${formatBasisPoints(borrowRate)}%`,
+      color: 'text-primary-600 dark:text-primary-400',
+    },
+    {
+      label: 'Lender APY',
+      value: `${formatBasisPoints(lenderApy)}%`,
+      color: 'text-green-600 dark:text-green-400',
+    },
+  ];
+
+  return (
+    <Card variant="elevated">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-2">Interest Rate Model</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Borrow rate and lender APY at every level of pool utilization
+            </p>
+          </div>
+          <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary-100 dark:bg-primary-900/20">
+            <Activity className="h-6 w-6 text-primary-600 dark:text-primary-400" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          {stats.map((stat) => (
+            <div key={stat.label} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+              <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">{stat.label}</p>
+              <p className={`text-xl font-bold ${stat.color}`}>{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Chart */}
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={curveData} margin={{ top: 20, right: 20, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-gray-200 dark:stroke-gray-700" />
+              <XAxis
+                dataKey="utilization"
+                type="number"
+                domain={[0, 100]}
+                ticks={[0, 20, 40, 60, 80, 100]}
+                tickFormatter={(value) => `${value}%`}
+                className="text-xs"
+                tick={{ fill: 'currentColor' }}
+              />
+              <YAxis tickFormatter={(value) => `${value}%`} className="text-xs" tick={{ fill: 'currentColor' }} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                  border: '1px solid #E5E7EB',
+                  borderRadius: '8px',
+                  padding: '8px',
+                }}
+                labelFormatter={(value) => `Utilization ${value}%`}
+                formatter={(value, name) => [
+                  `${Number(value).toFixed(2)}%`,
+                  name === 'borrowRate' ? 'Borrow Rate' : 'Lender APY',
+                ]}
+              />
+              <ReferenceLine
+                x={toPercent(OPTIMAL_UTILIZATION)}
+                stroke="#9CA3AF"
+                strokeDasharray="4 4"
+                label={{ value: 'Optimal', position: 'top', fill: '#9CA3AF', fontSize: 12 }}
+              />
+              <ReferenceLine
+                x={toPercent(utilization)}
+                stroke="#10b981"
+                strokeWidth={2}
+                label={{ value: 'Now', position: 'top', fill: '#10b981', fontSize: 12 }}
+              />
+              <Line type="linear" dataKey="borrowRate" stroke="#7c3aed" strokeWidth={2} dot={false} />
+              <Line type="linear" dataKey="lenderApy" stroke="#10b981" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Explanation */}
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-800">
+          <p className="text-xs text-gray-500 dark:text-gray-500">
+            Rates rise gently up to {toPercent(OPTIMAL_UTILIZATION)}% utilization, then steeply beyond it. The
+            steep slope rewards lenders for supplying liquidity when the pool is nearly fully borrowed and discourages
+            further borrowing until utilization comes back down.
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
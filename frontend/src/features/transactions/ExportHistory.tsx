@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import type { Address } from 'viem';
+import { Card, Button, Input } from '../../components/ui';
+import { buildHistoryRows, toCsv, toJson } from '../../lib/indexer/export';
+import type { IndexedEvent } from '../../types/transaction';
+
+interface ExportHistoryProps {
+  account: Address;
+  events: IndexedEvent[];
+}
+
+type ExportFormat = 'csv' | 'json';
+
+// <input type="date"> value -> unix seconds at the start or end of that local day
+const toSeconds = (date: string, endOfDay: boolean) => {
+  if (!date) return undefined;
+  const time = new Date(`${date}T${endOfDay ? '23:59:59' : '00:00:00'}`).getTime();
+  return Math.floor(time / 1000);
+};
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const ExportHistory = ({ account, events }: ExportHistoryProps) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const rangeError = from && to && from > to ? 'Start date must be before end date' : undefined;
+
+  const handleExport = (format: ExportFormat) => {
+    const rows = buildHistoryRows(events, account, { from: toSeconds(from, false), to: toSeconds(to, true) });
+    const filename = `onloan-history-${account.slice(0, 8)}${from ? `-from-${from}` : ''}${to ? `-to-${to}` : ''}`;
+
+    if (format === 'csv') {
+      download(toCsv(rows), `${filename}.csv`, 'text/csv');
+    } else {
+      download(toJson(rows), `${filename}.json`, 'application/json');
+    }
+  };
+
+  return (
+    <Card variant="standard" title="Export History" icon={Download}>
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Input label="From" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+          <Input
+            label="To"
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            error={rangeError}
+          />
+        </div>
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={() => handleExport('csv')} disabled={!!rangeError}>
+            Download CSV
+          </Button>
+          <Button variant="secondary" onClick={() => handleExport('json')} disabled={!!rangeError}>
+            Download JSON
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-500">
+          Deposits, withdrawals, interest claims, loans, repayments, defaults, liquidations and faucet claims. Amounts
+          are in USDT; the running balance is the net USDT moved into your wallet through the protocol.
+        </p>
+      </div>
+    </Card>
+  );
+};
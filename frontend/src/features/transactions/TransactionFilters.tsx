@@ -0,0 +1,39 @@
+import { INDEXED_EVENTS } from '../../lib/indexer/events';
+import { TransactionCategory, TRANSACTION_CATEGORY_LABELS } from '../../types/transaction';
+import type { IndexedEvent } from '../../types/transaction';
+
+export type TransactionFilter = TransactionCategory | 'all';
+
+interface TransactionFiltersProps {
+  events: IndexedEvent[];
+  value: TransactionFilter;
+  onChange: (filter: TransactionFilter) => void;
+}
+
+const filters: TransactionFilter[] = ['all', ...Object.values(TransactionCategory)];
+
+export const TransactionFilters = ({ events, value, onChange }: TransactionFiltersProps) => {
+  const countFor = (filter: TransactionFilter) =>
+    filter === 'all'
+      ? events.length
+      : events.filter((event) => INDEXED_EVENTS[event.eventName]?.category === filter).length;
+
+  return (
+    <div className="flex flex-wrap gap-2 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl w-fit">
+      {filters.map((filter) => (
+        <button
+          key={filter}
+          type="button"
+          onClick={() => onChange(filter)}
+          className={`py-2 px-4 rounded-lg font-medium text-sm transition-colors ${
+            value === filter
+              ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+              : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+          }`}
+        >
+          {filter === 'all' ? 'All' : TRANSACTION_CATEGORY_LABELS[filter]} ({countFor(filter)})
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import { PiggyBank, FileText, Shield, Award, Droplet, ExternalLink, History } from 'lucide-react';
+import { Card } from '../../components/ui';
+import { useExplorer } from '../../hooks/useExplorer';
+import { INDEXED_EVENTS } from '../../lib/indexer/events';
+import { formatCollateral, formatUsdt } from '../../lib/utils/format';
+import { TransactionCategory } from '../../types/transaction';
+import type { IndexedEvent } from '../../types/transaction';
+import type { CollateralType } from '../../types/loan';
+
+interface TransactionListProps {
+  events: IndexedEvent[];
+}
+
+const categoryConfig = {
+  [TransactionCategory.Lending]: {
+    icon: PiggyBank,
+    color: 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400',
+  },
+  [TransactionCategory.Loans]: {
+    icon: FileText,
+    color: 'bg-primary-100 text-primary-600 dark:bg-primary-900/30 dark:text-primary-400',
+  },
+  [TransactionCategory.Collateral]: {
+    icon: Shield,
+    color: 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400',
+  },
+  [TransactionCategory.Credit]: {
+    icon: Award,
+    color: 'bg-yellow-100 text-yellow-600 dark:bg-yellow-900/30 dark:text-yellow-400',
+  },
+  [TransactionCategory.Faucet]: {
+    icon: Droplet,
+    color: 'bg-cyan-100 text-cyan-600 dark:bg-cyan-900/30 dark:text-cyan-400',
+  },
+};
+
+// Headline value for an event: its USDT amount, or whatever it records instead
+const describe = ({ eventName, args }: IndexedEvent) => {
+  const { amountArg } = INDEXED_EVENTS[eventName];
+  if (amountArg) return `${formatUsdt(args[amountArg] as bigint)} USDT`;
+
+  switch (eventName) {
+    case 'CollateralLocked':
+      return formatCollateral(args.amount as bigint, Number(args.collateralType) as CollateralType);
+    case 'ScoreUpdated':
+      return `${args.oldScore} → ${args.newScore}`;
+    default:
+      return undefined;
+  }
+};
+
+export const TransactionList = ({ events }: TransactionListProps) => {
+  const explorer = useExplorer();
+
+  return (
+    <Card variant="standard">
+      {events.length === 0 ? (
+        <div className="text-center py-8">
+          <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 dark:bg-gray-800">
+            <History className="h-8 w-8 text-gray-400" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">No Transactions Found</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Deposits, loans, repayments and faucet claims will appear here.
+          </p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+          {events.map((event) => {
+            const { category, label } = INDEXED_EVENTS[event.eventName];
+            const { icon: Icon, color } = categoryConfig[category];
+            const loanId = event.args.loanId as bigint | undefined;
+            const reason = event.eventName === 'ScoreUpdated' ? (event.args.reason as string) : undefined;
+            const value = describe(event);
+
+            return (
+              <li key={event.id} className="flex items-center justify-between gap-4 py-4">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className={`flex h-10 w-10 shrink-0 items-center justify-center rounded-lg ${color}`}>
+                    <Icon className="h-5 w-5" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                      {label}
+                      {loanId !== undefined && (
+                        <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">Loan #{loanId.toString()}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                      {new Date(event.timestamp * 1000).toLocaleString()}
+                      {reason && ` · ${reason}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {value && <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">{value}</span>}
+                  {explorer.baseUrl && (
+                    <a
+                      href={explorer.txUrl(event.transactionHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                      title="View on explorer"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { useBlockNumber, useReadContracts, useWriteContract } from 'wagmi';
+import type { Address, Hash } from 'viem';
+import { CONTRACT_LABELS, PAUSABLE_CONTRACTS, WIRING, checkWiring } from '../lib/contracts/wiring';
+import type { PausableContract } from '../lib/contracts/wiring';
+import { formatUsdt, parseAmount } from '../lib/utils/format';
+import { AdminAction } from '../types/admin';
+import type { AdminBalances, PendingAdminAction } from '../types/admin';
+import type { PredictedChange } from '../types/transaction';
+import { contractABIs, useContractAddresses, useContracts } from './useContract';
+import { usePreflight } from './usePreflight';
+import { useProtocolOwner } from './useProtocolOwner';
+import { useTrackedTx } from './useTrackedTx';
+
+const shorten = (address?: Address) => (address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '—');
+
+/**
+ * Everything the Admin page shows and does: each contract's owner, paused
+ * state and wiring, the balances the owner can move, and the owner-only
+ * writes. Every write is previewed through preflight before the wallet opens.
+ */
+export const useAdmin = () => {
+  const addresses = useContractAddresses();
+  const contracts = useContracts();
+  const { owners, ownedContracts, isLoading: ownersLoading } = useProtocolOwner();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: [
+      ...PAUSABLE_CONTRACTS.map((contract) => ({
+        address: addresses[contract],
+        abi: contractABIs[contract],
+        functionName: 'paused',
+      })),
+      ...WIRING.map((link) => ({
+        address: addresses[link.contract],
+        abi: contractABIs[link.contract],
+        functionName: link.getter,
+      })),
+      { ...contracts.loanManager, functionName: 'totalProtocolFeesCollected' },
+      { ...contracts.usdtFaucet, functionName: 'getFaucetBalance' },
+      { ...contracts.mockUSDT, functionName: 'totalSupply' },
+    ],
+  });
+
+  useEffect(() => {
+    if (blockNumber === undefined) return;
+    refetch({ cancelRefetch: false });
+  }, [blockNumber, refetch]);
+
+  // The batch mixes functions, so each slot is narrowed by hand
+  const results = (data ?? []).map((read) => read.result);
+  const pausedResults = results.slice(0, PAUSABLE_CONTRACTS.length) as (boolean | undefined)[];
+  const wiringResults = results.slice(PAUSABLE_CONTRACTS.length, PAUSABLE_CONTRACTS.length + WIRING.length);
+  const [protocolFees, faucetBalance, usdtSupply] = results.slice(PAUSABLE_CONTRACTS.length + WIRING.length) as (
+    | bigint
+    | undefined
+  )[];
+
+  const paused: Partial<Record<PausableContract, boolean>> = {};
+  PAUSABLE_CONTRACTS.forEach((contract, i) => {
+    if (pausedResults[i] !== undefined) paused[contract] = pausedResults[i];
+  });
+
+  const wiring = checkWiring(WIRING, wiringResults as (Address | undefined)[], addresses);
+  const treasury = wiring.find((link) => link.getter === 'protocolTreasury')?.actual;
+  const priceOracle = wiring.find((link) => link.getter === 'priceOracle')?.actual;
+
+  const balances: AdminBalances = {
+    protocolFees: protocolFees ?? 0n,
+    faucetBalance: faucetBalance ?? 0n,
+    usdtSupply: usdtSupply ?? 0n,
+    treasury,
+  };
+
+  // Writes
+  const { writeContractAsync } = useWriteContract();
+  const preflight = usePreflight();
+  const adminTx = useTrackedTx();
+  const [pending, setPending] = useState<PendingAdminAction>();
+
+  useEffect(() => {
+    if (adminTx.isConfirmed) refetch();
+  }, [adminTx.isConfirmed, refetch]);
+
+  const submit = (action: PendingAdminAction, label: string, send: () => Promise<Hash>) => {
+    setPending(action);
+    adminTx.track(label, send());
+  };
+
+  const setPaused = (contract: PausableContract, pause: boolean) => {
+    const action = { action: pause ? AdminAction.Pause : AdminAction.Unpause, contract };
+    const name = CONTRACT_LABELS[contract];
+    const changes: PredictedChange[] = [
+      { label: `${name} status`, before: pause ? 'Active' : 'Paused', after: pause ? 'Paused' : 'Active' },
+    ];
+    const title = `${pause ? 'Pause' : 'Unpause'} ${name}`;
+    const functionName = pause ? 'pause' : 'unpause';
+
+    // Each contract is spelled out so the request stays typed against its own ABI
+    if (contract === 'loanManager') {
+      const request = { ...contracts.loanManager, functionName } as const;
+      preflight({ title, request, changes, onConfirm: () => submit(action, title, () => writeContractAsync(request)) });
+    } else if (contract === 'lendingPool') {
+      const request = { ...contracts.lendingPool, functionName } as const;
+      preflight({ title, request, changes, onConfirm: () => submit(action, title, () => writeContractAsync(request)) });
+    } else {
+      const request = { ...contracts.collateralManager, functionName } as const;
+      preflight({ title, request, changes, onConfirm: () => submit(action, title, () => writeContractAsync(request)) });
+    }
+  };
+
+  const updatePriceOracle = (oracle: Address) => {
+    const request = { ...contracts.collateralManager, functionName: 'updatePriceOracle', args: [oracle] } as const;
+    preflight({
+      title: 'Update Price Oracle',
+      request,
+      changes: [{ label: 'ETH/USD oracle', before: shorten(priceOracle), after: shorten(oracle) }],
+      onConfirm: () =>
+        submit({ action: AdminAction.UpdatePriceOracle }, 'Update price oracle', () => writeContractAsync(request)),
+    });
+  };
+
+  const setPoolLoanManager = (loanManager: Address) => {
+    const current = wiring.find((link) => link.contract === 'lendingPool' && link.getter === 'loanManager')?.actual;
+    const request = { ...contracts.lendingPool, functionName: 'setLoanManager', args: [loanManager] } as const;
+    preflight({
+      title: 'Set LendingPool Loan Manager',
+      request,
+      changes: [{ label: 'Loan manager', before: shorten(current), after: shorten(loanManager) }],
+      onConfirm: () =>
+        submit({ action: AdminAction.SetPoolLoanManager }, 'Set LendingPool loan manager', () =>
+          writeContractAsync(request)
+        ),
+    });
+  };
+
+  const setScoreLoanManager = (loanManager: Address) => {
+    const current = wiring.find((link) => link.contract === 'creditScore' && link.getter === 'loanManager')?.actual;
+    const request = { ...contracts.creditScore, functionName: 'setLoanManager', args: [loanManager] } as const;
+    preflight({
+      title: 'Set CreditScore Loan Manager',
+      request,
+      changes: [{ label: 'Loan manager', before: shorten(current), after: shorten(loanManager) }],
+      onConfirm: () =>
+        submit({ action: AdminAction.SetScoreLoanManager }, 'Set CreditScore loan manager', () =>
+          writeContractAsync(request)
+        ),
+    });
+  };
+
+  const withdrawProtocolFees = () => {
+    const request = { ...contracts.loanManager, functionName: 'withdrawProtocolFees' } as const;
+    preflight({
+      title: 'Withdraw Protocol Fees',
+      request,
+      changes: [
+        { label: 'Fees held by LoanManager', before: `${formatUsdt(balances.protocolFees)} USDT`, after: '0.00 USDT' },
+        { label: 'Sent to treasury', after: shorten(treasury) },
+      ],
+      onConfirm: () =>
+        submit(
+          { action: AdminAction.WithdrawProtocolFees },
+          `Withdraw ${formatUsdt(balances.protocolFees)} USDT protocol fees`,
+          () => writeContractAsync(request)
+        ),
+    });
+  };
+
+  const updateProtocolTreasury = (newTreasury: Address) => {
+    const request = { ...contracts.loanManager, functionName: 'updateProtocolTreasury', args: [newTreasury] } as const;
+    preflight({
+      title: 'Update Protocol Treasury',
+      request,
+      changes: [{ label: 'Treasury', before: shorten(treasury), after: shorten(newTreasury) }],
+      onConfirm: () =>
+        submit({ action: AdminAction.UpdateProtocolTreasury }, 'Update protocol treasury', () =>
+          writeContractAsync(request)
+        ),
+    });
+  };
+
+  const emergencyWithdraw = (amount: string) => {
+    const amountInUnits = parseAmount(amount, 6);
+    if (!amountInUnits) return;
+
+    const request = { ...contracts.usdtFaucet, functionName: 'emergencyWithdraw', args: [amountInUnits] } as const;
+    preflight({
+      title: 'Emergency Withdraw from Faucet',
+      request,
+      changes: [
+        {
+          label: 'Faucet balance',
+          before: `${formatUsdt(balances.faucetBalance)} USDT`,
+          after: `${formatUsdt(balances.faucetBalance - amountInUnits)} USDT`,
+        },
+        { label: 'Sent to owner', after: shorten(owners.usdtFaucet) },
+      ],
+      onConfirm: () =>
+        submit({ action: AdminAction.EmergencyWithdraw }, `Withdraw ${formatUsdt(amountInUnits)} USDT from faucet`, () =>
+          writeContractAsync(request)
+        ),
+    });
+  };
+
+  const mint = (to: Address, amount: string) => {
+    const amountInUnits = parseAmount(amount, 6);
+    if (!amountInUnits) return;
+
+    const request = { ...contracts.mockUSDT, functionName: 'mint', args: [to, amountInUnits] } as const;
+    preflight({
+      title: 'Mint Test USDT',
+      request,
+      changes: [
+        { label: 'Recipient', after: shorten(to) },
+        {
+          label: 'USDT supply',
+          before: `${formatUsdt(balances.usdtSupply)} USDT`,
+          after: `${formatUsdt(balances.usdtSupply + amountInUnits)} USDT`,
+        },
+      ],
+      onConfirm: () =>
+        submit({ action: AdminAction.Mint }, `Mint ${formatUsdt(amountInUnits)} USDT to ${shorten(to)}`, () =>
+          writeContractAsync(request)
+        ),
+    });
+  };
+
+  return {
+    owners,
+    ownedContracts,
+    paused,
+    wiring,
+    balances,
+    isLoading: ownersLoading || isLoading,
+    setPaused,
+    updatePriceOracle,
+    setPoolLoanManager,
+    setScoreLoanManager,
+    withdrawProtocolFees,
+    updateProtocolTreasury,
+    emergencyWithdraw,
+    mint,
+    pending: adminTx.isPending ? pending : undefined,
+    isActionSuccess: adminTx.isConfirmed,
+    isActionError: adminTx.isFailed,
+    actionError: adminTx.error,
+  };
+};
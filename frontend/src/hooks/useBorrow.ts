@@ -0,0 +1,173 @@
+import { useAccount, useBalance, useReadContract } from 'wagmi';
+import { formatUnits, formatEther } from 'viem';
+import { LoanManagerABI } from '../lib/contracts/abis/LoanManager';
+import { CreditScoreABI } from '../lib/contracts/abis/CreditScore';
+import { LendingPoolABI } from '../lib/contracts/abis/LendingPool';
+import { useLoanManager } from './useLoanManager';
+import { usePriceOracle } from './usePriceOracle';
+import { useUsdtApproval } from './useUsdtApproval';
+import { formatCollateral, formatUsdt, parseAmount } from '../lib/utils/format';
+import { calculateInterest, getLoanTypeRate } from '../lib/utils/interestCalculator';
+import { CollateralType } from '../types/loan';
+import type { LoanType } from '../types/loan';
+import { useContractAddresses } from './useContract';
+
+export interface BorrowParams {
+  loanType: LoanType;
+  amount: string;
+  durationDays: string;
+  collateralType: CollateralType;
+  collateralAmount: string;
+}
+
+const SECONDS_PER_DAY = 86400;
+
+export const useBorrow = ({ loanType, amount, durationDays, collateralType, collateralAmount }: BorrowParams) => {
+  const addresses = useContractAddresses();
+  const { address, isConnected } = useAccount();
+  const enabled = isConnected && !!address;
+
+  const amountInUnits = parseAmount(amount, 6);
+  const days = Number.isInteger(Number(durationDays)) ? Number(durationDays) : 0;
+
+  // Protocol limits
+  const { data: minLoanAmount } = useReadContract({
+    address: addresses.loanManager,
+    abi: LoanManagerABI,
+    functionName: 'MIN_LOAN_AMOUNT',
+  });
+
+  const { data: minDuration } = useReadContract({
+    address: addresses.loanManager,
+    abi: LoanManagerABI,
+    functionName: 'MIN_LOAN_DURATION',
+  });
+
+  const { data: maxDuration } = useReadContract({
+    address: addresses.loanManager,
+    abi: LoanManagerABI,
+    functionName: 'MAX_LOAN_DURATION',
+  });
+
+  const minDurationDays = minDuration ? Number(minDuration) / SECONDS_PER_DAY : 7;
+  const maxDurationDays = maxDuration ? Number(maxDuration) / SECONDS_PER_DAY : 365;
+  const isDurationValid = days >= minDurationDays && days <= maxDurationDays;
+
+  // Borrower-specific terms
+  const { data: collateralRatio } = useReadContract({
+    address: addresses.creditScore,
+    abi: CreditScoreABI,
+    functionName: 'getRequiredCollateralRatio',
+    args: address ? [address] : undefined,
+    query: { enabled },
+  });
+
+  const { data: qualifies } = useReadContract({
+    address: addresses.creditScore,
+    abi: CreditScoreABI,
+    functionName: 'qualifiesForLoan',
+    args: address && amountInUnits ? [address, amountInUnits] : undefined,
+    query: { enabled: enabled && !!amountInUnits },
+  });
+
+  const { data: availableLiquidity } = useReadContract({
+    address: addresses.lendingPool,
+    abi: LendingPoolABI,
+    functionName: 'getAvailableLiquidity',
+  });
+
+  // Interest quote, computed locally with the same integer math as InterestCalculator
+  const interestRate = getLoanTypeRate(loanType);
+  const totalInterest =
+    amountInUnits && isDurationValid ? calculateInterest(amountInUnits, interestRate, BigInt(days)) : undefined;
+
+  // ETH/USD price for sizing ETH collateral; the contract rejects ETH loans unless it is fresh
+  const oracle = usePriceOracle();
+
+  // Wallet balances
+  const { data: ethBalance } = useBalance({ address, query: { enabled } });
+
+  // USDT collateral is pulled by LoanManager via transferFrom
+  const { usdtBalance, allowance, approve: approveUsdt, isApprovePending } = useUsdtApproval(
+    addresses.loanManager
+  );
+
+  // Required collateral: loan amount * ratio / 100, in USDT units
+  const ratio = collateralRatio !== undefined ? Number(collateralRatio) : undefined;
+  const requiredCollateralUsd =
+    amountInUnits && ratio !== undefined ? (amountInUnits * BigInt(ratio)) / 100n : undefined;
+
+  // Minimum ETH (wei) whose oracle value covers the requirement, rounded up
+  const { price, decimals: priceDecimals } = oracle;
+  const requiredEth =
+    requiredCollateralUsd !== undefined && price && price > 0n && priceDecimals !== undefined
+      ? (requiredCollateralUsd * 10n ** BigInt(18 + priceDecimals - 6) + price - 1n) / price
+      : undefined;
+
+  const collateralInUnits = parseAmount(collateralAmount, collateralType === CollateralType.ETH ? 18 : 6);
+  const needsApproval = collateralType === CollateralType.USDT && !!collateralInUnits && allowance < collateralInUnits;
+
+  const loanManager = useLoanManager();
+
+  const approve = () => {
+    if (!collateralInUnits) return;
+    approveUsdt(collateralInUnits);
+  };
+
+  const createLoan = () => {
+    if (!address || !amountInUnits || !collateralInUnits || !isDurationValid) return;
+
+    // Borrowed USDT arrives in the wallet; USDT collateral leaves it in the same transaction
+    const isEth = collateralType === CollateralType.ETH;
+    if (isEth && !oracle.isUsable) return;
+    const usdtAfter = usdtBalance + amountInUnits - (isEth ? 0n : collateralInUnits);
+    const changes = [
+      { label: 'USDT balance', before: formatUsdt(usdtBalance), after: formatUsdt(usdtAfter) },
+      ...(isEth && ethBalance
+        ? [
+            {
+              label: 'ETH balance',
+              before: formatCollateral(ethBalance.value, CollateralType.ETH),
+              after: formatCollateral(ethBalance.value - collateralInUnits, CollateralType.ETH),
+            },
+          ]
+        : []),
+      { label: 'Collateral locked', after: formatCollateral(collateralInUnits, collateralType) },
+      { label: 'Total due', after: `${formatUsdt(amountInUnits + (totalInterest ?? 0n))} USDT` },
+    ];
+
+    if (isEth) {
+      loanManager.createLoanWithEth(amountInUnits, loanType, days, collateralInUnits, changes);
+    } else {
+      loanManager.createLoanWithUsdt(amountInUnits, collateralInUnits, loanType, days, changes);
+    }
+  };
+
+  return {
+    minLoanAmount: minLoanAmount ? formatUnits(minLoanAmount, 6) : '100',
+    minDurationDays,
+    maxDurationDays,
+    requiredCollateralRatio: ratio,
+    qualifies,
+    availableLiquidity: availableLiquidity ? formatUnits(availableLiquidity, 6) : '0',
+    interestRate: Number(interestRate),
+    totalInterest: totalInterest !== undefined ? formatUnits(totalInterest, 6) : undefined,
+    requiredCollateralUsd: requiredCollateralUsd !== undefined ? formatUnits(requiredCollateralUsd, 6) : undefined,
+    requiredEth: requiredEth !== undefined ? formatEther(requiredEth) : undefined,
+    ethPriceStatus: oracle.status,
+    isEthPriceUsable: oracle.isUsable,
+    ethPrice: price && priceDecimals !== undefined ? formatUnits(price, priceDecimals) : undefined,
+    ethBalance: ethBalance ? formatEther(ethBalance.value) : '0',
+    usdtBalance: formatUnits(usdtBalance, 6),
+    needsApproval,
+    approve,
+    createLoan,
+    resetCreate: loanManager.resetCreate,
+    isApprovePending,
+    isCreatePending: loanManager.isCreatePending,
+    isCreateSuccess: loanManager.isCreateSuccess,
+    isCreateError: loanManager.isCreateError,
+    createError: loanManager.createError,
+    createHash: loanManager.createHash,
+  };
+};
@@ -1,6 +1,8 @@
 import { useMemo } from 'react';
+import { useAccount, useChainId, useConfig } from 'wagmi';
 import type { Address } from 'viem';
-import { contractAddresses } from '../lib/contracts/addresses';
+import { getDeployment } from '../lib/contracts/addresses';
+import type { ContractAddresses } from '../lib/contracts/addresses';
 import {
   MockUSDTABI,
   USDTFaucetABI,
@@ -11,21 +13,14 @@ import {
   LoanManagerABI,
 } from '../lib/contracts/abis';
 
-export type ContractName =
-  | 'mockUSDT'
-  | 'usdtFaucet'
-  | 'interestCalculator'
-  | 'collateralManager'
-  | 'creditScore'
-  | 'lendingPool'
-  | 'loanManager';
+export type ContractName = keyof ContractAddresses;
 
 interface ContractConfig {
   address: Address;
   abi: readonly unknown[];
 }
 
-const contractABIs = {
+export const contractABIs = {
   mockUSDT: MockUSDTABI,
   usdtFaucet: USDTFaucetABI,
   interestCalculator: InterestCalculatorABI,
@@ -35,48 +30,81 @@ const contractABIs = {
   loanManager: LoanManagerABI,
 } as const;
 
+/**
+ * The chain the app is working against: the wallet's chain once connected (even one
+ * missing from the wagmi config), otherwise the config's current chain.
+ */
+export function useActiveChainId() {
+  const { chainId: walletChainId } = useAccount();
+  const configChainId = useChainId();
+  return walletChainId ?? configChainId;
+}
+
+/**
+ * The protocol deployment on the active chain, or undefined if it isn't deployed there
+ * or the chain isn't configured (so there is no RPC to reach it through).
+ */
+export function useDeployment() {
+  const config = useConfig();
+  const chainId = useActiveChainId();
+  const isConfigured = config.chains.some((chain) => chain.id === chainId);
+  return useMemo(() => (isConfigured ? getDeployment(chainId) : undefined), [isConfigured, chainId]);
+}
+
+/**
+ * Contract addresses on the connected chain. Only use beneath RequireSupportedChain,
+ * which keeps anything that reads or writes contracts off undeployed chains.
+ */
+export function useContractAddresses(): ContractAddresses {
+  const deployment = useDeployment();
+  if (!deployment) throw new Error('useContractAddresses must be used within RequireSupportedChain');
+  return deployment.contracts;
+}
+
 export function useContract(contractName: ContractName): ContractConfig {
+  const addresses = useContractAddresses();
   return useMemo(
     () => ({
-      address: contractAddresses[contractName],
+      address: addresses[contractName],
       abi: contractABIs[contractName],
     }),
-    [contractName]
+    [addresses, contractName]
   );
 }
 
 export function useContracts() {
+  const addresses = useContractAddresses();
   return useMemo(
     () => ({
       mockUSDT: {
-        address: contractAddresses.mockUSDT,
+        address: addresses.mockUSDT,
         abi: MockUSDTABI,
       },
       usdtFaucet: {
-        address: contractAddresses.usdtFaucet,
+        address: addresses.usdtFaucet,
         abi: USDTFaucetABI,
       },
       interestCalculator: {
-        address: contractAddresses.interestCalculator,
+        address: addresses.interestCalculator,
         abi: InterestCalculatorABI,
       },
       collateralManager: {
-        address: contractAddresses.collateralManager,
+        address: addresses.collateralManager,
         abi: CollateralManagerABI,
       },
       creditScore: {
-        address: contractAddresses.creditScore,
+        address: addresses.creditScore,
         abi: CreditScoreABI,
       },
       lendingPool: {
-        address: contractAddresses.lendingPool,
+        address: addresses.lendingPool,
         abi: LendingPoolABI,
       },
       loanManager: {
-        address: contractAddresses.loanManager,
+        address: addresses.loanManager,
         abi: LoanManagerABI,
       },
     }),
-    []
+    [addresses]
   );
 }
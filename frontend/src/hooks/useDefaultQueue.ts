@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import {
+  useAccount,
+  useBlock,
+  useReadContract,
+  useReadContracts,
+  useWatchContractEvent,
+  useWriteContract,
+} from 'wagmi';
+import { CollateralManagerABI } from '../lib/contracts/abis/CollateralManager';
+import { CreditScoreABI } from '../lib/contracts/abis/CreditScore';
+import { LoanManagerABI } from '../lib/contracts/abis/LoanManager';
+import { SCORE_DECREASE_PER_DEFAULT, scoreAfterDefault, sortDefaultQueue } from '../lib/utils/defaults';
+import { formatCollateral, formatUsdt } from '../lib/utils/format';
+import { LoanStatus } from '../types/loan';
+import type { DefaultQueueEntry, Loan } from '../types/loan';
+import { useContractAddresses } from './useContract';
+import { usePreflight } from './usePreflight';
+import { useTrackedTx } from './useTrackedTx';
+
+// Per-loan LoanManager view calls, batched before CollateralManager.getHealthRatio below
+const LOAN_READS = ['getLoan', 'getOutstandingAmount'] as const;
+
+// The LoanManager reads plus getHealthRatio
+const READS_PER_LOAN = LOAN_READS.length + 1;
+
+/**
+ * Every active loan that still holds its collateral, ordered by how close it
+ * is to being defaultable, with the latest block's timestamp to measure the
+ * grace period against (the contract checks block.timestamp, which can run
+ * ahead of the wall clock on a local chain).
+ */
+export const useDefaultQueue = () => {
+  const addresses = useContractAddresses();
+  const loanManager = { address: addresses.loanManager, abi: LoanManagerABI } as const;
+  const collateralManager = { address: addresses.collateralManager, abi: CollateralManagerABI } as const;
+  const creditScore = { address: addresses.creditScore, abi: CreditScoreABI } as const;
+  const { address } = useAccount();
+  const { data: block } = useBlock({ watch: true });
+
+  // Loan ids run from 1 to loanCounter
+  const { data: loanCounter, refetch: refetchCounter } = useReadContract({
+    ...loanManager,
+    functionName: 'loanCounter',
+  });
+  const ids = Array.from({ length: Number(loanCounter ?? 0n) }, (_, i) => BigInt(i + 1));
+
+  const {
+    data,
+    isLoading: loansLoading,
+    refetch: refetchLoans,
+  } = useReadContracts({
+    contracts: ids.flatMap((loanId) => [
+      ...LOAN_READS.map((functionName) => ({ ...loanManager, functionName, args: [loanId] }) as const),
+      { ...collateralManager, functionName: 'getHealthRatio', args: [loanId] } as const,
+    ]),
+    query: { enabled: ids.length > 0 },
+  });
+
+  const candidates: Omit<DefaultQueueEntry, 'creditScore'>[] = [];
+  ids.forEach((loanId, i) => {
+    const [loan, outstanding, health] = (data ?? []).slice(i * READS_PER_LOAN, (i + 1) * READS_PER_LOAN);
+    if (loan?.status !== 'success') return;
+
+    // The batch mixes functions, so each slot is narrowed by hand
+    const details = loan.result as Loan;
+    if (details.status !== LoanStatus.Active) return;
+    // A zero health ratio means a keeper has already liquidated the collateral, so
+    // defaultLoan would revert (it reverts for stale ETH prices too, and those stay listed)
+    if (health?.status === 'success' && health.result === 0n) return;
+
+    candidates.push({
+      loanId,
+      borrower: details.borrower,
+      dueDate: details.dueDate,
+      outstandingAmount: (outstanding?.result as bigint | undefined) ?? 0n,
+      collateralType: details.collateralType,
+      collateralAmount: details.collateralAmount,
+    });
+  });
+
+  // Current credit score of each borrower in the queue, for the default preview
+  const borrowers = [...new Set(candidates.map((entry) => entry.borrower))];
+  const { data: scores, refetch: refetchScores } = useReadContracts({
+    contracts: borrowers.map((borrower) => ({ ...creditScore, functionName: 'getScore', args: [borrower] }) as const),
+    query: { enabled: borrowers.length > 0 },
+  });
+
+  const entries: DefaultQueueEntry[] = candidates.map((entry) => {
+    const score = scores?.[borrowers.indexOf(entry.borrower)]?.result;
+    return { ...entry, creditScore: score !== undefined ? Number(score) : undefined };
+  });
+
+  const refetch = () => {
+    refetchCounter();
+    refetchLoans();
+    refetchScores();
+  };
+
+  useWatchContractEvent({ ...loanManager, eventName: 'LoanCreated', onLogs: refetch });
+  useWatchContractEvent({ ...loanManager, eventName: 'LoanCompleted', onLogs: refetch });
+  useWatchContractEvent({ ...loanManager, eventName: 'LoanDefaulted', onLogs: refetch });
+  useWatchContractEvent({ ...collateralManager, eventName: 'CollateralLiquidated', onLogs: refetch });
+
+  // Writes
+  const { writeContractAsync } = useWriteContract();
+  const preflight = usePreflight();
+  const defaultTx = useTrackedTx();
+  const [defaultingId, setDefaultingId] = useState<bigint>();
+
+  useEffect(() => {
+    if (defaultTx.isConfirmed) {
+      refetchLoans();
+      refetchScores();
+    }
+  }, [defaultTx.isConfirmed, refetchLoans, refetchScores]);
+
+  const markDefault = (entry: DefaultQueueEntry) => {
+    if (!address) return;
+
+    const request = { ...loanManager, functionName: 'defaultLoan', args: [entry.loanId] } as const;
+
+    preflight({
+      title: `Default Loan #${entry.loanId}`,
+      request,
+      changes: [
+        { label: 'Loan status', before: 'Active', after: 'Defaulted' },
+        { label: 'Outstanding written off', after: `${formatUsdt(entry.outstandingAmount)} USDT` },
+        { label: 'Collateral seized', after: formatCollateral(entry.collateralAmount, entry.collateralType) },
+        entry.creditScore !== undefined
+          ? {
+              label: "Borrower's credit score",
+              before: String(entry.creditScore),
+              after: String(scoreAfterDefault(entry.creditScore)),
+            }
+          : { label: "Borrower's credit score", after: `−${SCORE_DECREASE_PER_DEFAULT} points` },
+      ],
+      onConfirm: () => {
+        setDefaultingId(entry.loanId);
+        defaultTx.track(`Default loan #${entry.loanId}`, writeContractAsync(request));
+      },
+    });
+  };
+
+  return {
+    entries: sortDefaultQueue(entries),
+    now: block?.timestamp,
+    isLoading: loanCounter === undefined || (ids.length > 0 && loansLoading),
+    markDefault,
+    defaultingId,
+    isDefaultPending: defaultTx.isPending,
+    isDefaultSuccess: defaultTx.isConfirmed,
+    isDefaultError: defaultTx.isFailed,
+    defaultError: defaultTx.error,
+  };
+};
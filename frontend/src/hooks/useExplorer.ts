@@ -0,0 +1,19 @@
+import { useChainId, useConfig } from 'wagmi';
+import type { Address, Hash } from 'viem';
+
+/**
+ * Block explorer links for the connected chain (or `chainId` when given).
+ * Every URL is undefined on chains without an explorer, such as Anvil.
+ */
+export const useExplorer = (chainId?: number) => {
+  const config = useConfig();
+  const currentChainId = useChainId();
+  const id = chainId ?? currentChainId;
+  const baseUrl = config.chains.find((chain) => chain.id === id)?.blockExplorers?.default.url;
+
+  return {
+    baseUrl,
+    txUrl: (hash: Hash) => (baseUrl ? `${baseUrl}/tx/${hash}` : undefined),
+    addressUrl: (address: Address) => (baseUrl ? `${baseUrl}/address/${address}` : undefined),
+  };
+};
@@ -3,7 +3,8 @@ import { useEffect, useState } from 'react';
 import { formatUnits } from 'viem';
 import { USDTFaucetABI } from '../lib/contracts/abis/USDTFaucet';
 import { MockUSDTABI } from '../lib/contracts/abis/MockUSDT';
-import { contractAddresses } from '../lib/contracts/addresses';
+import { useTrackedTx } from './useTrackedTx';
+import { useContractAddresses } from './useContract';
 
 export interface FaucetData {
   canClaim: boolean;
@@ -15,6 +16,7 @@ export interface FaucetData {
 }
 
 export const useFaucet = () => {
+  const addresses = useContractAddresses();
   const { address, isConnected } = useAccount();
   const [faucetData, setFaucetData] = useState<FaucetData>({
     canClaim: false,
@@ -27,7 +29,7 @@ export const useFaucet = () => {
 
   // Get last claim time
   const { data: lastClaim, isLoading: lastClaimLoading, refetch: refetchLastClaim } = useReadContract({
-    address: contractAddresses.usdtFaucet,
+    address: addresses.usdtFaucet,
     abi: USDTFaucetABI,
     functionName: 'lastClaimTime',
     args: address ? [address] : undefined,
@@ -36,7 +38,7 @@ export const useFaucet = () => {
 
   // Get USDT balance
   const { data: balance, isLoading: balanceLoading, refetch: refetchBalance } = useReadContract({
-    address: contractAddresses.mockUSDT,
+    address: addresses.mockUSDT,
     abi: MockUSDTABI,
     functionName: 'balanceOf',
     args: address ? [address] : undefined,
@@ -45,17 +47,25 @@ export const useFaucet = () => {
 
   // Get claim amount
   const { data: claimAmountData } = useReadContract({
-    address: contractAddresses.usdtFaucet,
+    address: addresses.usdtFaucet,
     abi: USDTFaucetABI,
     functionName: 'CLAIM_AMOUNT',
   });
 
   // Write contract for claiming
-  const { writeContract, isPending, isSuccess, isError, error } = useWriteContract();
+  const { writeContractAsync } = useWriteContract();
+  const claimTx = useTrackedTx();
+
+  useEffect(() => {
+    if (claimTx.isConfirmed) {
+      refetchLastClaim();
+      refetchBalance();
+    }
+  }, [claimTx.isConfirmed, refetchLastClaim, refetchBalance]);
 
   // Watch for claim events
   useWatchContractEvent({
-    address: contractAddresses.usdtFaucet,
+    address: addresses.usdtFaucet,
     abi: USDTFaucetABI,
     eventName: 'TokensClaimed',
     onLogs: () => {
@@ -79,8 +89,8 @@ export const useFaucet = () => {
       const timeRemaining = Math.max(0, nextClaimTime - now);
       const canClaimNow = timeRemaining === 0;
 
-      const usdtBal = balance ? formatUnits(balance as bigint, 6) : '0';
-      const claimAmt = claimAmountData ? formatUnits(claimAmountData as bigint, 6) : '1000';
+      const usdtBal = balance ? formatUnits(balance, 6) : '0';
+      const claimAmt = claimAmountData ? formatUnits(claimAmountData, 6) : '1000';
 
       setFaucetData({
         canClaim: canClaimNow,
@@ -101,23 +111,22 @@ export const useFaucet = () => {
   const claim = async () => {
     if (!address || !faucetData.canClaim) return;
 
-    try {
-      writeContract({
-        address: contractAddresses.usdtFaucet,
+    claimTx.track(
+      `Claim ${Number(faucetData.claimAmount).toLocaleString()} test USDT`,
+      writeContractAsync({
+        address: addresses.usdtFaucet,
         abi: USDTFaucetABI,
         functionName: 'claimTokens',
-      });
-    } catch (err) {
-      console.error('Claim error:', err);
-    }
+      })
+    );
   };
 
   return {
     ...faucetData,
     claim,
-    isPending,
-    isSuccess,
-    isError,
-    error,
+    isPending: claimTx.isPending,
+    isSuccess: claimTx.isConfirmed,
+    isError: claimTx.isFailed,
+    error: claimTx.error,
   };
 };
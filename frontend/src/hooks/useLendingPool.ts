@@ -1,9 +1,15 @@
-import { useAccount, useReadContract, useWriteContract, useWatchContractEvent } from 'wagmi';
-import { useState, useEffect } from 'react';
+import { useWatchContractEvent, useWriteContract } from 'wagmi';
+import { useEffect } from 'react';
 import { formatUnits, parseUnits } from 'viem';
 import { LendingPoolABI } from '../lib/contracts/abis/LendingPool';
 import { MockUSDTABI } from '../lib/contracts/abis/MockUSDT';
-import { contractAddresses } from '../lib/contracts/addresses';
+import { waitForTrackedTransaction } from '../lib/transactions/txManager';
+import { formatBasisPoints, formatUsdt } from '../lib/utils/format';
+import { usePreflight } from './usePreflight';
+import { useProtocolSnapshot } from './useProtocolSnapshot';
+import { useTrackedTx } from './useTrackedTx';
+import { useContractAddresses } from './useContract';
+import { useViewedAccount } from './useViewedAccount';
 
 export interface LendingPoolData {
   totalDeposited: string;
@@ -17,198 +23,202 @@ export interface LendingPoolData {
 }
 
 export const useLendingPool = () => {
-  const { address, isConnected } = useAccount();
-  const [poolData, setPoolData] = useState<LendingPoolData>({
-    totalDeposited: '0',
-    availableToWithdraw: '0',
-    earnedInterest: '0',
-    currentAPY: '8.5',
-    poolShare: '0',
-    totalPoolLiquidity: '0',
-    utilizationRate: '0',
-    isLoading: true,
-  });
+  const addresses = useContractAddresses();
+  const { address, isReadOnly } = useViewedAccount();
 
-  // Get user deposit
-  const { data: userDeposit, isLoading: depositLoading, refetch: refetchDeposit } = useReadContract({
-    address: contractAddresses.lendingPool,
-    abi: LendingPoolABI,
-    functionName: 'getUserDeposit',
-    args: address ? [address] : undefined,
-    query: { enabled: isConnected && !!address },
-  });
+  // Deposit, interest, wallet balance and allowance come from the shared per-block snapshot
+  const snapshot = useProtocolSnapshot(address);
+  const { deposited, pendingInterest, usdtBalance, totalDeposits, refetch } = snapshot;
+  const lendingPool = { address: addresses.lendingPool, abi: LendingPoolABI } as const;
 
-  // Get earned interest
-  const { data: interest, isLoading: interestLoading, refetch: refetchInterest } = useReadContract({
-    address: contractAddresses.lendingPool,
-    abi: LendingPoolABI,
-    functionName: 'calculateInterest',
-    args: address ? [address] : undefined,
-    query: { enabled: isConnected && !!address },
-  });
-
-  // Get total pool liquidity
-  const { data: poolLiquidity, refetch: refetchLiquidity } = useReadContract({
-    address: contractAddresses.lendingPool,
-    abi: LendingPoolABI,
-    functionName: 'totalLiquidity',
-    query: { enabled: true },
-  });
-
-  // Get user USDT balance
-  const { data: usdtBalance, refetch: refetchBalance } = useReadContract({
-    address: contractAddresses.mockUSDT,
-    abi: MockUSDTABI,
-    functionName: 'balanceOf',
-    args: address ? [address] : undefined,
-    query: { enabled: isConnected && !!address },
-  });
-
-  // Get USDT allowance
-  const { data: allowance, refetch: refetchAllowance } = useReadContract({
-    address: contractAddresses.mockUSDT,
-    abi: MockUSDTABI,
-    functionName: 'allowance',
-    args: address ? [address, contractAddresses.lendingPool] : undefined,
-    query: { enabled: isConnected && !!address },
+  // Interest claims by the viewed lender, including ones sent from another tab or device
+  useWatchContractEvent({
+    ...lendingPool,
+    eventName: 'InterestClaimed',
+    args: address ? { lender: address } : undefined,
+    enabled: !!address,
+    onLogs: () => refetch(),
   });
 
   // Write contracts
-  const { 
-    writeContract: writeDeposit, 
-    isPending: isDepositPending,
-    isSuccess: isDepositSuccess,
-    isError: isDepositError,
-  } = useWriteContract();
-
-  const { 
-    writeContract: writeWithdraw, 
-    isPending: isWithdrawPending,
-    isSuccess: isWithdrawSuccess,
-    isError: isWithdrawError,
-  } = useWriteContract();
-
-  const { 
-    writeContract: writeApprove, 
-    isPending: isApprovePending,
-    isSuccess: isApproveSuccess,
-  } = useWriteContract();
-
-  // Watch for deposit events
-  useWatchContractEvent({
-    address: contractAddresses.lendingPool,
-    abi: LendingPoolABI,
-    eventName: 'Deposit',
-    onLogs: () => {
-      refetchDeposit();
-      refetchInterest();
-      refetchLiquidity();
-      refetchBalance();
-    },
-  });
+  const { writeContractAsync } = useWriteContract();
+  const preflight = usePreflight();
+  const depositTx = useTrackedTx();
+  const withdrawTx = useTrackedTx();
+  const approveTx = useTrackedTx();
+  const claimTx = useTrackedTx();
+
+  // Refresh once our own transactions are mined
+  useEffect(() => {
+    if (approveTx.isConfirmed || depositTx.isConfirmed || withdrawTx.isConfirmed || claimTx.isConfirmed) refetch();
+  }, [approveTx.isConfirmed, depositTx.isConfirmed, withdrawTx.isConfirmed, claimTx.isConfirmed, refetch]);
+
+  const depositAmount = formatUnits(deposited, 6);
+  const liquidity = formatUnits(totalDeposits, 6);
+
+  const poolData: LendingPoolData = {
+    totalDeposited: depositAmount,
+    availableToWithdraw: depositAmount, // Principal only; pending interest is claimed separately (earnedInterest)
+    earnedInterest: formatUnits(pendingInterest, 6),
+    currentAPY: formatBasisPoints(snapshot.currentApy),
+    poolShare: Number(liquidity) > 0 ? ((Number(depositAmount) / Number(liquidity)) * 100).toFixed(2) : '0',
+    totalPoolLiquidity: liquidity,
+    utilizationRate: formatBasisPoints(snapshot.utilization),
+    isLoading: !!address && snapshot.isLoading,
+  };
 
-  // Watch for withdraw events
-  useWatchContractEvent({
-    address: contractAddresses.lendingPool,
-    abi: LendingPoolABI,
-    eventName: 'Withdraw',
-    onLogs: () => {
-      refetchDeposit();
-      refetchInterest();
-      refetchLiquidity();
-      refetchBalance();
-    },
-  });
+  // Share of the pool (in %) after moving `delta` USDT in or out
+  const poolShareAfter = (delta: bigint) => {
+    const depositAfter = deposited + delta;
+    const totalAfter = totalDeposits + delta;
+    return totalAfter > 0n ? ((Number(depositAfter) / Number(totalAfter)) * 100).toFixed(2) : '0.00';
+  };
 
-  // Calculate pool data
-  useEffect(() => {
-    if (!isConnected) {
-      setPoolData((prev) => ({ ...prev, isLoading: false }));
-      return;
-    }
-
-    const deposit = userDeposit ? formatUnits(userDeposit as bigint, 6) : '0';
-    const earned = interest ? formatUnits(interest as bigint, 6) : '0';
-    const available = deposit; // Available to withdraw (excluding interest for now)
-    const liquidity = poolLiquidity ? formatUnits(poolLiquidity as bigint, 6) : '0';
-    
-    // Calculate pool share
-    const poolSharePercent = Number(liquidity) > 0 
-      ? ((Number(deposit) / Number(liquidity)) * 100).toFixed(2)
-      : '0';
-
-    // Mock utilization rate (would come from contract in production)
-    const utilization = '65.4';
-
-    setPoolData({
-      totalDeposited: deposit,
-      availableToWithdraw: available,
-      earnedInterest: earned,
-      currentAPY: '8.5', // Mock APY - should come from InterestCalculator
-      poolShare: poolSharePercent,
-      totalPoolLiquidity: liquidity,
-      utilizationRate: utilization,
-      isLoading: depositLoading || interestLoading,
-    });
-  }, [userDeposit, interest, poolLiquidity, isConnected, depositLoading, interestLoading]);
+  // Preview the balance changes of a deposit (positive) or withdrawal (negative)
+  const predictChanges = (delta: bigint) => [
+    { label: 'USDT balance', before: formatUsdt(usdtBalance), after: formatUsdt(usdtBalance - delta) },
+    { label: 'Your deposit', before: formatUsdt(deposited), after: formatUsdt(deposited + delta) },
+    { label: 'Pool share', before: `${poolShareAfter(0n)}%`, after: `${poolShareAfter(delta)}%` },
+  ];
 
   // Approve USDT
   const approve = async (amount: string) => {
-    if (!address) return;
+    if (!address || isReadOnly) return;
 
     const amountInUnits = parseUnits(amount, 6);
     
-    writeApprove({
-      address: contractAddresses.mockUSDT,
-      abi: MockUSDTABI,
-      functionName: 'approve',
-      args: [contractAddresses.lendingPool, amountInUnits],
-    });
+    approveTx.track(
+      `Approve ${formatUsdt(amountInUnits)} USDT`,
+      writeContractAsync({
+        address: addresses.mockUSDT,
+        abi: MockUSDTABI,
+        functionName: 'approve',
+        args: [addresses.lendingPool, amountInUnits],
+      })
+    );
   };
 
   // Deposit USDT
   const deposit = async (amount: string) => {
-    if (!address) return;
+    if (!address || isReadOnly) return;
 
     const amountInUnits = parseUnits(amount, 6);
-    
-    writeDeposit({
-      address: contractAddresses.lendingPool,
+    const request = {
+      address: addresses.lendingPool,
       abi: LendingPoolABI,
       functionName: 'deposit',
       args: [amountInUnits],
+    } as const;
+
+    preflight({
+      title: 'Confirm Deposit',
+      request,
+      changes: predictChanges(amountInUnits),
+      onConfirm: () => depositTx.track(`Deposit ${formatUsdt(amountInUnits)} USDT`, writeContractAsync(request)),
     });
   };
 
   // Withdraw USDT
   const withdraw = async (amount: string) => {
-    if (!address) return;
+    if (!address || isReadOnly) return;
 
     const amountInUnits = parseUnits(amount, 6);
-    
-    writeWithdraw({
-      address: contractAddresses.lendingPool,
+    const request = {
+      address: addresses.lendingPool,
       abi: LendingPoolABI,
       functionName: 'withdraw',
       args: [amountInUnits],
+    } as const;
+
+    preflight({
+      title: 'Confirm Withdrawal',
+      request,
+      changes: predictChanges(-amountInUnits),
+      onConfirm: () => withdrawTx.track(`Withdraw ${formatUsdt(amountInUnits)} USDT`, writeContractAsync(request)),
+    });
+  };
+
+  const claimRequest = { ...lendingPool, functionName: 'claimInterest' } as const;
+
+  // Submit claimInterest and resolve once it is mined, true if it succeeded
+  const submitClaim = async () => {
+    const hash = await claimTx.track(
+      `Claim ${formatUsdt(pendingInterest)} USDT interest`,
+      writeContractAsync(claimRequest)
+    );
+    return !!hash && !!(await waitForTrackedTransaction(hash));
+  };
+
+  // Claim all pending interest, leaving the deposit in the pool
+  const claimInterest = () => {
+    if (!address || isReadOnly) return;
+
+    preflight({
+      title: 'Claim Interest',
+      request: claimRequest,
+      changes: [
+        { label: 'USDT balance', before: formatUsdt(usdtBalance), after: formatUsdt(usdtBalance + pendingInterest) },
+        { label: 'Pending interest', before: formatUsdt(pendingInterest), after: formatUsdt(0n) },
+      ],
+      onConfirm: submitClaim,
+    });
+  };
+
+  // Both payouts come out of the pool's idle USDT, so the claim must leave enough behind for the
+  // withdrawal; otherwise the claim would go through and the withdrawal revert
+  const canWithdrawAll = snapshot.availableLiquidity >= deposited + pendingInterest;
+
+  // Claim pending interest, then withdraw the whole deposit once the claim is mined
+  const withdrawAll = () => {
+    if (!address || isReadOnly || !canWithdrawAll) return;
+    if (deposited === 0n) return claimInterest();
+
+    const request = { ...lendingPool, functionName: 'withdraw', args: [deposited] } as const;
+
+    preflight({
+      title: 'Withdraw All',
+      request,
+      changes: [
+        {
+          label: 'USDT balance',
+          before: formatUsdt(usdtBalance),
+          after: formatUsdt(usdtBalance + deposited + pendingInterest),
+        },
+        { label: 'Your deposit', before: formatUsdt(deposited), after: formatUsdt(0n) },
+        { label: 'Pending interest', before: formatUsdt(pendingInterest), after: formatUsdt(0n) },
+      ],
+      onConfirm: async () => {
+        if (pendingInterest > 0n && !(await submitClaim())) return;
+        withdrawTx.track(`Withdraw ${formatUsdt(deposited)} USDT`, writeContractAsync(request));
+      },
     });
   };
 
   return {
     ...poolData,
-    usdtBalance: usdtBalance ? formatUnits(usdtBalance as bigint, 6) : '0',
-    allowance: allowance ? formatUnits(allowance as bigint, 6) : '0',
+    usdtBalance: formatUnits(usdtBalance, 6),
+    allowance: formatUnits(snapshot.poolAllowance, 6),
+    isReadOnly,
     approve,
     deposit,
     withdraw,
-    isDepositPending,
-    isDepositSuccess,
-    isDepositError,
-    isWithdrawPending,
-    isWithdrawSuccess,
-    isWithdrawError,
-    isApprovePending,
-    isApproveSuccess,
-    refetchAllowance,
+    claimInterest,
+    withdrawAll,
+    canWithdrawAll,
+    isDepositPending: depositTx.isPending,
+    isDepositSuccess: depositTx.isConfirmed,
+    isDepositError: depositTx.isFailed,
+    depositError: depositTx.error,
+    isWithdrawPending: withdrawTx.isPending,
+    isWithdrawSuccess: withdrawTx.isConfirmed,
+    isWithdrawError: withdrawTx.isFailed,
+    withdrawError: withdrawTx.error,
+    isApprovePending: approveTx.isPending,
+    isApproveSuccess: approveTx.isConfirmed,
+    approveError: approveTx.error,
+    isClaimPending: claimTx.isPending,
+    isClaimSuccess: claimTx.isConfirmed,
+    isClaimError: claimTx.isFailed,
+    claimError: claimTx.error,
   };
 };
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import {
+  useAccount,
+  useBlockNumber,
+  useReadContract,
+  useReadContracts,
+  useWriteContract,
+} from 'wagmi';
+import { parseEventLogs } from 'viem';
+import { CollateralManagerABI } from '../lib/contracts/abis/CollateralManager';
+import { LoanManagerABI } from '../lib/contracts/abis/LoanManager';
+import { waitForTrackedTransaction } from '../lib/transactions/txManager';
+import { formatCollateral } from '../lib/utils/format';
+import { calculateLiquidatorReward, rankLiquidatable } from '../lib/utils/liquidation';
+import { LoanStatus } from '../types/loan';
+import type { LiquidationPosition, LiquidationResult, Loan } from '../types/loan';
+import { useContractAddresses } from './useContract';
+import { usePreflight } from './usePreflight';
+import { useTrackedTx } from './useTrackedTx';
+
+// Per-loan CollateralManager view calls, batched after LoanManager.getLoan below
+const POSITION_READS = ['canLiquidate', 'getHealthRatio', 'getCollateralValue'] as const;
+
+// getLoan plus the CollateralManager reads
+const READS_PER_LOAN = POSITION_READS.length + 1;
+
+/**
+ * Every active loan checked against CollateralManager's liquidation rules,
+ * re-read each block since health moves with the oracle price. `positions`
+ * holds the ones that can be liquidated now, least healthy first.
+ */
+export const useLiquidations = () => {
+  const addresses = useContractAddresses();
+  const loanManager = { address: addresses.loanManager, abi: LoanManagerABI } as const;
+  const collateralManager = { address: addresses.collateralManager, abi: CollateralManagerABI } as const;
+  const { address } = useAccount();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+
+  // Loan ids run from 1 to loanCounter
+  const { data: loanCounter, refetch: refetchCounter } = useReadContract({
+    ...loanManager,
+    functionName: 'loanCounter',
+  });
+  const ids = Array.from({ length: Number(loanCounter ?? 0n) }, (_, i) => BigInt(i + 1));
+
+  const {
+    data,
+    isLoading: positionsLoading,
+    refetch: refetchPositions,
+  } = useReadContracts({
+    contracts: ids.flatMap((loanId) => [
+      { ...loanManager, functionName: 'getLoan', args: [loanId] } as const,
+      ...POSITION_READS.map((functionName) => ({ ...collateralManager, functionName, args: [loanId] })),
+    ]),
+    query: { enabled: ids.length > 0 },
+  });
+
+  useEffect(() => {
+    if (blockNumber === undefined) return;
+    refetchCounter();
+    refetchPositions({ cancelRefetch: false });
+  }, [blockNumber, refetchCounter, refetchPositions]);
+
+  const active: LiquidationPosition[] = [];
+  ids.forEach((loanId, i) => {
+    const [loan, canLiquidate, health, value] = (data ?? []).slice(i * READS_PER_LOAN, (i + 1) * READS_PER_LOAN);
+    if (loan?.status !== 'success') return;
+
+    // The batch mixes functions, so each slot is narrowed by hand
+    const details = loan.result as Loan;
+    if (details.status !== LoanStatus.Active) return;
+    // A zero health ratio means the collateral has already been released or seized
+    if (health?.status === 'success' && health.result === 0n) return;
+
+    active.push({
+      loanId,
+      borrower: details.borrower,
+      principal: details.amount,
+      collateralType: details.collateralType,
+      collateralAmount: details.collateralAmount,
+      // Health and value revert while the oracle price is stale
+      healthRatio: health?.status === 'success' ? Number(health.result as bigint) : undefined,
+      collateralValue: value?.status === 'success' ? (value.result as bigint) : undefined,
+      canLiquidate: canLiquidate?.status === 'success' && canLiquidate.result === true,
+      reward: calculateLiquidatorReward(details.collateralAmount),
+    });
+  });
+
+  // Writes
+  const { writeContractAsync } = useWriteContract();
+  const preflight = usePreflight();
+  const liquidateTx = useTrackedTx();
+  const [liquidatingId, setLiquidatingId] = useState<bigint>();
+  const [result, setResult] = useState<LiquidationResult>();
+
+  const liquidate = (position: LiquidationPosition) => {
+    if (!address) return;
+
+    const request = {
+      ...collateralManager,
+      functionName: 'liquidate',
+      args: [position.loanId, position.borrower],
+    } as const;
+
+    preflight({
+      title: `Liquidate Loan #${position.loanId}`,
+      request,
+      changes: [
+        { label: 'Health ratio', after: position.healthRatio !== undefined ? `${position.healthRatio}%` : '—' },
+        { label: 'Collateral seized', after: formatCollateral(position.collateralAmount, position.collateralType) },
+        { label: 'Your reward', after: formatCollateral(position.reward, position.collateralType) },
+      ],
+      onConfirm: async () => {
+        setLiquidatingId(position.loanId);
+        setResult(undefined);
+
+        const hash = await liquidateTx.track(`Liquidate loan #${position.loanId}`, writeContractAsync(request));
+        const receipt = hash ? await waitForTrackedTransaction(hash) : undefined;
+
+        if (receipt) {
+          const [event] = parseEventLogs({
+            abi: CollateralManagerABI,
+            eventName: 'CollateralLiquidated',
+            logs: receipt.logs,
+          });
+          if (event) {
+            setResult({
+              loanId: event.args.loanId,
+              borrower: event.args.borrower,
+              collateralType: position.collateralType,
+              collateralAmount: event.args.collateralAmount,
+              reward: event.args.liquidatorReward,
+              transactionHash: receipt.transactionHash,
+            });
+          }
+          refetchPositions();
+        }
+        setLiquidatingId(undefined);
+      },
+    });
+  };
+
+  return {
+    positions: rankLiquidatable(active),
+    activeCount: active.length,
+    unpricedCount: active.filter((position) => position.healthRatio === undefined).length,
+    isLoading: loanCounter === undefined || (ids.length > 0 && positionsLoading),
+    liquidate,
+    liquidatingId,
+    isLiquidatePending: liquidateTx.isPending,
+    isLiquidateError: liquidateTx.isFailed,
+    liquidateError: liquidateTx.error,
+    result,
+    dismissResult: () => setResult(undefined),
+  };
+};
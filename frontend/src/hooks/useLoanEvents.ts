@@ -0,0 +1,70 @@
+import { usePublicClient } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { LoanManagerABI } from '../lib/contracts/abis/LoanManager';
+import { getLogsInChunks } from '../lib/indexer/indexer';
+import type { LoanEvent } from '../types/loan';
+import { useContractAddresses, useDeployment } from './useContract';
+
+/**
+ * Fetch the LoanCreated, LoanRepaid and LoanCompleted logs for one loan,
+ * oldest first, reading from the deployment block in RPC-sized chunks.
+ * `version` should change whenever the loan changes on-chain (e.g. its
+ * totalRepaid) so the history is re-read after a repayment.
+ */
+export const useLoanEvents = (loanId: bigint | undefined, version?: string) => {
+  const addresses = useContractAddresses();
+  const deploymentBlock = useDeployment()?.deploymentBlock ?? 0n;
+  const publicClient = usePublicClient();
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['loanEvents', addresses.loanManager, loanId?.toString(), version],
+    enabled: !!publicClient && loanId !== undefined,
+    queryFn: async (): Promise<LoanEvent[]> => {
+      if (!publicClient || loanId === undefined) return [];
+
+      const loanManager = { address: addresses.loanManager, abi: LoanManagerABI } as const;
+      const head = await publicClient.getBlockNumber();
+      const [created, repaid, completed] = await Promise.all([
+        getLogsInChunks(deploymentBlock, head, (fromBlock, toBlock) =>
+          publicClient.getContractEvents({ ...loanManager, eventName: 'LoanCreated', args: { loanId }, fromBlock, toBlock })
+        ),
+        getLogsInChunks(deploymentBlock, head, (fromBlock, toBlock) =>
+          publicClient.getContractEvents({ ...loanManager, eventName: 'LoanRepaid', args: { loanId }, fromBlock, toBlock })
+        ),
+        getLogsInChunks(deploymentBlock, head, (fromBlock, toBlock) =>
+          publicClient.getContractEvents({ ...loanManager, eventName: 'LoanCompleted', args: { loanId }, fromBlock, toBlock })
+        ),
+      ]);
+      const logs = [...created, ...repaid, ...completed];
+
+      // Resolve each distinct block once for its timestamp
+      const blockNumbers = [...new Set(logs.map((log) => log.blockNumber))];
+      const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+      const timestamps = new Map(blocks.map((block) => [block.number, block.timestamp]));
+
+      return logs
+        .map((log): LoanEvent => {
+          const base = {
+            blockNumber: log.blockNumber,
+            timestamp: timestamps.get(log.blockNumber) ?? 0n,
+            transactionHash: log.transactionHash,
+          };
+          switch (log.eventName) {
+            case 'LoanCreated':
+              return { ...base, type: 'created', amount: log.args.amount ?? 0n };
+            case 'LoanRepaid':
+              return { ...base, type: 'repaid', amount: log.args.amount ?? 0n };
+            case 'LoanCompleted':
+              return { ...base, type: 'completed', amount: log.args.totalAmount ?? 0n };
+          }
+        })
+        .sort((a, b) => (a.blockNumber === b.blockNumber ? 0 : a.blockNumber < b.blockNumber ? -1 : 1));
+    },
+  });
+
+  return {
+    events: data ?? [],
+    isLoading,
+    refetch,
+  };
+};
@@ -0,0 +1,220 @@
+import {
+  useReadContracts,
+  useWriteContract,
+  useWatchContractEvent,
+} from 'wagmi';
+import { useEffect } from 'react';
+import { LoanManagerABI } from '../lib/contracts/abis/LoanManager';
+import { CollateralManagerABI } from '../lib/contracts/abis/CollateralManager';
+import { formatUsdt } from '../lib/utils/format';
+import { usePreflight } from './usePreflight';
+import { useProtocolSnapshot } from './useProtocolSnapshot';
+import { useTrackedTx } from './useTrackedTx';
+import { LoanStatus } from '../types/loan';
+import type { Loan, UserLoan, LoanType } from '../types/loan';
+import type { PredictedChange } from '../types/transaction';
+import { useContractAddresses } from './useContract';
+import { useViewedAccount } from './useViewedAccount';
+
+// Per-loan LoanManager view calls, in the order they are batched below
+const LOAN_READS = ['getLoan', 'getOutstandingAmount', 'getTotalDue', 'isOverdue'] as const;
+
+// LoanManager reads plus CollateralManager.getHealthRatio
+const READS_PER_LOAN = LOAN_READS.length + 1;
+
+export const useLoanManager = () => {
+  const addresses = useContractAddresses();
+  const loanManager = { address: addresses.loanManager, abi: LoanManagerABI } as const;
+  const { address, isReadOnly } = useViewedAccount();
+  const enabled = !!address;
+
+  // Loan ids owned by the viewed borrower, from the shared per-block snapshot
+  const {
+    loanIds: ids,
+    isLoading: idsLoading,
+    refetch: refetchLoanIds,
+  } = useProtocolSnapshot(address);
+
+  // Loan details and repayment state, batched into a single multicall. The batch mixes
+  // functions, so results come back as a union and are narrowed per slot below.
+  const {
+    data: loanData,
+    isLoading: loansLoading,
+    refetch: refetchLoanData,
+  } = useReadContracts({
+    contracts: ids.flatMap((loanId) => [
+      ...LOAN_READS.map((functionName) => ({
+        address: loanManager.address,
+        abi: loanManager.abi,
+        functionName,
+        args: [loanId],
+      })),
+      {
+        address: addresses.collateralManager,
+        abi: CollateralManagerABI,
+        functionName: 'getHealthRatio',
+        args: [loanId],
+      },
+    ]),
+    query: { enabled: enabled && ids.length > 0 },
+  });
+
+  const loans: UserLoan[] = [];
+  ids.forEach((id, i) => {
+    const [loan, outstanding, totalDue, overdue, health] = (loanData ?? []).slice(
+      i * READS_PER_LOAN,
+      (i + 1) * READS_PER_LOAN
+    );
+    if (loan?.status !== 'success') return;
+
+    const details = loan.result as Loan;
+    // getHealthRatio reverts on a stale oracle price and is 0 once the collateral is inactive.
+    // An Active loan only loses its collateral to CollateralManager.liquidate, which leaves
+    // the loan itself Active in LoanManager.
+    const isActive = details.status === LoanStatus.Active;
+    const isCollateralLiquidated = isActive && health?.status === 'success' && health.result === 0n;
+    const healthRatio =
+      isActive && !isCollateralLiquidated && health?.status === 'success'
+        ? Number(health.result as bigint)
+        : undefined;
+
+    loans.push({
+      ...details,
+      id,
+      outstandingAmount: (outstanding?.result as bigint | undefined) ?? 0n,
+      totalDue: (totalDue?.result as bigint | undefined) ?? 0n,
+      isOverdue: (overdue?.result as boolean | undefined) ?? false,
+      healthRatio,
+      isCollateralLiquidated,
+    });
+  });
+
+  const refetch = () => {
+    refetchLoanIds();
+    refetchLoanData();
+  };
+
+  // Refresh on lifecycle events for this borrower
+  const watchArgs = address ? { borrower: address } : undefined;
+
+  useWatchContractEvent({ ...loanManager, eventName: 'LoanCreated', args: watchArgs, enabled, onLogs: refetch });
+  useWatchContractEvent({ ...loanManager, eventName: 'LoanRepaid', args: watchArgs, enabled, onLogs: refetch });
+  useWatchContractEvent({ ...loanManager, eventName: 'LoanCompleted', args: watchArgs, enabled, onLogs: refetch });
+  useWatchContractEvent({ ...loanManager, eventName: 'LoanDefaulted', args: watchArgs, enabled, onLogs: refetch });
+  useWatchContractEvent({
+    address: addresses.collateralManager,
+    abi: CollateralManagerABI,
+    eventName: 'CollateralLiquidated',
+    args: watchArgs,
+    enabled,
+    onLogs: refetch,
+  });
+
+  // Writes
+  const { writeContractAsync } = useWriteContract();
+  const preflight = usePreflight();
+  const createTx = useTrackedTx();
+  const repayTx = useTrackedTx();
+
+  // Pick up the new state as soon as our own transactions are mined
+  useEffect(() => {
+    if (createTx.isConfirmed || repayTx.isConfirmed) {
+      refetchLoanIds();
+      refetchLoanData();
+    }
+  }, [createTx.isConfirmed, repayTx.isConfirmed, refetchLoanIds, refetchLoanData]);
+
+  // Each write is simulated first; `changes` is the caller's preview of its effect
+
+  // Borrow against ETH; collateral (wei) is sent as msg.value
+  const createLoanWithEth = (
+    amount: bigint,
+    loanType: LoanType,
+    durationDays: number,
+    collateral: bigint,
+    changes: PredictedChange[]
+  ) => {
+    if (!address || isReadOnly) return;
+
+    const request = {
+      ...loanManager,
+      functionName: 'createLoanWithEth',
+      args: [amount, loanType, BigInt(durationDays)],
+      value: collateral,
+    } as const;
+
+    preflight({
+      title: 'Confirm Loan',
+      request,
+      changes,
+      onConfirm: () => createTx.track(`Borrow ${formatUsdt(amount)} USDT`, writeContractAsync(request)),
+    });
+  };
+
+  // Borrow against USDT; collateral must already be approved to LoanManager
+  const createLoanWithUsdt = (
+    amount: bigint,
+    collateral: bigint,
+    loanType: LoanType,
+    durationDays: number,
+    changes: PredictedChange[]
+  ) => {
+    if (!address || isReadOnly) return;
+
+    const request = {
+      ...loanManager,
+      functionName: 'createLoanWithUsdt',
+      args: [amount, collateral, loanType, BigInt(durationDays)],
+    } as const;
+
+    preflight({
+      title: 'Confirm Loan',
+      request,
+      changes,
+      onConfirm: () => createTx.track(`Borrow ${formatUsdt(amount)} USDT`, writeContractAsync(request)),
+    });
+  };
+
+  // Repayment USDT must already be approved to LoanManager
+  const repayLoan = (loanId: bigint, amount: bigint, changes: PredictedChange[]) => {
+    if (!address || isReadOnly) return;
+    // Repaying in full would revert in releaseCollateral, and partial payments can never complete it
+    if (loans.find((loan) => loan.id === loanId)?.isCollateralLiquidated) return;
+
+    const request = {
+      ...loanManager,
+      functionName: 'repayLoan',
+      args: [loanId, amount],
+    } as const;
+
+    preflight({
+      title: 'Confirm Repayment',
+      request,
+      changes,
+      onConfirm: () =>
+        repayTx.track(`Repay ${formatUsdt(amount)} USDT on loan #${loanId}`, writeContractAsync(request)),
+    });
+  };
+
+  return {
+    loans,
+    isLoading: idsLoading || loansLoading,
+    refetch,
+    isReadOnly,
+    createLoanWithEth,
+    createLoanWithUsdt,
+    repayLoan,
+    resetCreate: createTx.reset,
+    resetRepay: repayTx.reset,
+    isCreatePending: createTx.isPending,
+    isCreateSuccess: createTx.isConfirmed,
+    isCreateError: createTx.isFailed,
+    createError: createTx.error,
+    createHash: createTx.hash,
+    isRepayPending: repayTx.isPending,
+    isRepaySuccess: repayTx.isConfirmed,
+    isRepayError: repayTx.isFailed,
+    repayError: repayTx.error,
+    repayHash: repayTx.hash,
+  };
+};
@@ -0,0 +1,26 @@
+import type { PoolStats } from '../types/pool';
+import { useProtocolSnapshot } from './useProtocolSnapshot';
+import { useViewedAccount } from './useViewedAccount';
+
+/**
+ * Pool-wide analytics from LendingPool.getPoolStats and LoanManager.getProtocolFeeInfo.
+ * Served from the viewed account's protocol snapshot, so pages that also show
+ * account data share its per-block batch instead of reading the pool separately.
+ */
+export const usePoolStats = (): PoolStats & { isLoading: boolean } => {
+  const { address } = useViewedAccount();
+  const snapshot = useProtocolSnapshot(address);
+
+  return {
+    totalDeposits: snapshot.totalDeposits,
+    totalBorrowed: snapshot.totalBorrowed,
+    availableLiquidity: snapshot.availableLiquidity,
+    utilization: snapshot.utilization,
+    currentApy: snapshot.currentApy,
+    borrowRate: snapshot.borrowRate,
+    protocolFeePercentage: snapshot.protocolFeePercentage,
+    protocolFeesCollected: snapshot.protocolFeesCollected,
+    protocolTreasury: snapshot.protocolTreasury,
+    isLoading: snapshot.isLoading,
+  };
+};
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+import type { PreflightRequest } from '../lib/transactions/preflight';
+import type { PredictedChange } from '../types/transaction';
+
+export interface PreflightOptions {
+  title: string;
+  request: PreflightRequest;
+  changes: PredictedChange[];
+  onConfirm: () => void; // Sends the real transaction once the user accepts the preview
+}
+
+export const PreflightContext = createContext<((options: PreflightOptions) => void) | null>(null);
+
+/**
+ * Simulate a write and show its predicted outcome before the wallet prompt.
+ * `onConfirm` only runs if the simulation succeeds and the user confirms.
+ */
+export const usePreflight = () => {
+  const preflight = useContext(PreflightContext);
+  if (!preflight) throw new Error('usePreflight must be used within a PreflightProvider');
+  return preflight;
+};
@@ -0,0 +1,59 @@
+import { useEffect } from 'react';
+import { useBlock, useReadContract, useReadContracts } from 'wagmi';
+import { CollateralManagerABI } from '../lib/contracts/abis/CollateralManager';
+import { IPriceOracleABI } from '../lib/contracts/abis/IPriceOracle';
+import { PriceStatus, getPriceStatus } from '../lib/utils/oracle';
+import { useContractAddresses } from './useContract';
+
+/**
+ * The ETH/USD feed CollateralManager values ETH collateral with, re-read
+ * every block. Its age and status are measured against the latest block's
+ * timestamp, the clock the contract's staleness check uses.
+ */
+export const usePriceOracle = () => {
+  const addresses = useContractAddresses();
+  const { data: block } = useBlock({ watch: true });
+
+  const { data: oracleAddress } = useReadContract({
+    address: addresses.collateralManager,
+    abi: CollateralManagerABI,
+    functionName: 'priceOracle',
+  });
+
+  const oracle = { address: oracleAddress, abi: IPriceOracleABI } as const;
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: [
+      { ...oracle, functionName: 'getLatestPrice' },
+      { ...oracle, functionName: 'decimals' },
+      { ...oracle, functionName: 'description' },
+    ],
+    query: { enabled: !!oracleAddress },
+  });
+
+  useEffect(() => {
+    if (block === undefined) return;
+    refetch({ cancelRefetch: false });
+  }, [block, refetch]);
+
+  const [latestPrice, feedDecimals, description] = data ?? [];
+  const [price, priceDecimals, updatedAt] = latestPrice?.result ?? [];
+  const now = block?.timestamp;
+
+  const status =
+    price !== undefined && updatedAt !== undefined && now !== undefined
+      ? getPriceStatus(price, updatedAt, now)
+      : undefined;
+
+  return {
+    oracleAddress,
+    price, // In the feed's decimals
+    decimals: feedDecimals?.result ?? priceDecimals,
+    description: description?.result,
+    updatedAt, // Unix seconds
+    age: updatedAt !== undefined && now !== undefined ? now - updatedAt : undefined,
+    status,
+    // Only a fresh, positive price can value ETH collateral on-chain
+    isUsable: status === PriceStatus.Fresh,
+    isLoading: !oracleAddress || isLoading,
+  };
+};
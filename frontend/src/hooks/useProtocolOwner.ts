@@ -0,0 +1,43 @@
+import { useAccount, useReadContracts } from 'wagmi';
+import { isAddressEqual } from 'viem';
+import type { Address } from 'viem';
+import { OWNABLE_CONTRACTS } from '../lib/contracts/wiring';
+import type { OwnableContract } from '../lib/contracts/wiring';
+import { contractABIs, useDeployment } from './useContract';
+
+/**
+ * The owner() of every ownable protocol contract and which of them the
+ * connected wallet owns. Safe to call outside RequireSupportedChain: on a
+ * chain without a deployment nothing is read and no contract is owned.
+ */
+export const useProtocolOwner = () => {
+  const { address } = useAccount();
+  const deployment = useDeployment();
+
+  const { data, isLoading } = useReadContracts({
+    contracts: OWNABLE_CONTRACTS.map((contract) => ({
+      address: deployment?.contracts[contract],
+      abi: contractABIs[contract],
+      functionName: 'owner',
+    })),
+    query: { enabled: !!deployment },
+  });
+
+  const owners: Partial<Record<OwnableContract, Address>> = {};
+  OWNABLE_CONTRACTS.forEach((contract, i) => {
+    const owner = data?.[i]?.result;
+    if (owner) owners[contract] = owner as Address;
+  });
+
+  const ownedContracts = OWNABLE_CONTRACTS.filter((contract) => {
+    const owner = owners[contract];
+    return !!address && !!owner && isAddressEqual(owner, address);
+  });
+
+  return {
+    owners,
+    ownedContracts,
+    isOwner: ownedContracts.length > 0,
+    isLoading: !!deployment && isLoading,
+  };
+};
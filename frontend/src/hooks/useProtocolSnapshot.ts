@@ -0,0 +1,97 @@
+import { useEffect } from 'react';
+import { useBlockNumber, useReadContracts } from 'wagmi';
+import { zeroAddress } from 'viem';
+import type { Address } from 'viem';
+import { CreditScoreABI } from '../lib/contracts/abis/CreditScore';
+import { LendingPoolABI } from '../lib/contracts/abis/LendingPool';
+import { LoanManagerABI } from '../lib/contracts/abis/LoanManager';
+import { MockUSDTABI } from '../lib/contracts/abis/MockUSDT';
+import { calculateBorrowRate } from '../lib/utils/interestCalculator';
+import type { PoolStats } from '../types/pool';
+import { useContractAddresses } from './useContract';
+
+// Per-account fields; zero (or the contracts' defaults) until an account is given
+export interface AccountSnapshot {
+  deposited: bigint; // USDT (6 decimals) supplied to the pool
+  pendingInterest: bigint; // USDT (6 decimals)
+  usdtBalance: bigint; // Wallet USDT (6 decimals)
+  poolAllowance: bigint; // USDT approved to LendingPool
+  loanIds: readonly bigint[];
+  activeLoanCount: number;
+  creditScore: number;
+}
+
+export type ProtocolSnapshot = PoolStats & AccountSnapshot;
+
+const DEFAULT_CREDIT_SCORE = 300;
+
+/**
+ * Pool-wide stats and everything the Dashboard and Lend pages show about
+ * `account`, read in one multicall and refreshed once per block. Every
+ * caller with the same account shares the same query, so a page costs a
+ * single batch per block however many cards read from it.
+ */
+export const useProtocolSnapshot = (account?: Address) => {
+  const addresses = useContractAddresses();
+  const lendingPool = { address: addresses.lendingPool, abi: LendingPoolABI } as const;
+  const loanManager = { address: addresses.loanManager, abi: LoanManagerABI } as const;
+  const creditScore = { address: addresses.creditScore, abi: CreditScoreABI } as const;
+  const mockUsdt = { address: addresses.mockUSDT, abi: MockUSDTABI } as const;
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+
+  // Account reads go out for the zero address until an account is known, which keeps the batch
+  // a fixed tuple so each slot stays typed; their results are ignored in that case
+  const user = account ?? zeroAddress;
+
+  const { data, isLoading, refetch } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...lendingPool, functionName: 'getPoolStats' },
+      { ...loanManager, functionName: 'getProtocolFeeInfo' },
+      { ...lendingPool, functionName: 'getDepositInfo', args: [user] },
+      { ...lendingPool, functionName: 'calculatePendingInterest', args: [user] },
+      { ...mockUsdt, functionName: 'balanceOf', args: [user] },
+      { ...mockUsdt, functionName: 'allowance', args: [user, addresses.lendingPool] },
+      { ...loanManager, functionName: 'getUserLoans', args: [user] },
+      { ...loanManager, functionName: 'getActiveLoanCount', args: [user] },
+      { ...creditScore, functionName: 'getScore', args: [user] },
+    ],
+  });
+
+  // Never restart a batch that is still in flight when another caller asks too
+  useEffect(() => {
+    if (blockNumber === undefined) return;
+    refetch({ cancelRefetch: false });
+  }, [blockNumber, refetch]);
+
+  const [poolStats, feeInfo, depositInfo, interest, balance, allowance, loanIds, activeLoans, score] = data ?? [];
+  const [totalDeposits, totalBorrowed, availableLiquidity, utilization, currentApy] =
+    poolStats ?? [0n, 0n, 0n, 0n, 0n];
+  const [protocolFeePercentage, protocolFeesCollected, protocolTreasury] = feeInfo ?? [0n, 0n, undefined];
+  const hasAccount = !!account && !!data;
+
+  const snapshot: ProtocolSnapshot = {
+    totalDeposits,
+    totalBorrowed,
+    availableLiquidity,
+    utilization,
+    currentApy,
+    borrowRate: calculateBorrowRate(utilization),
+    protocolFeePercentage,
+    protocolFeesCollected,
+    protocolTreasury,
+    deposited: hasAccount && depositInfo ? depositInfo[0] : 0n,
+    pendingInterest: hasAccount ? (interest ?? 0n) : 0n,
+    usdtBalance: hasAccount ? (balance ?? 0n) : 0n,
+    poolAllowance: hasAccount ? (allowance ?? 0n) : 0n,
+    loanIds: hasAccount ? (loanIds ?? []) : [],
+    activeLoanCount: hasAccount ? Number(activeLoans ?? 0n) : 0,
+    creditScore: hasAccount && score ? Number(score) : DEFAULT_CREDIT_SCORE,
+  };
+
+  return {
+    ...snapshot,
+    isLoading,
+    refetch,
+  };
+};
@@ -0,0 +1,46 @@
+import { createContext, useContext } from 'react';
+import type { ToastLink, ToastType } from '../components/ui';
+
+export interface ToastOptions {
+  type: ToastType;
+  title?: string;
+  message: string;
+  link?: ToastLink;
+  duration?: number; // Milliseconds; 0 keeps the toast until dismissed
+}
+
+// A toast as kept in the notification center after it has been shown
+export interface Notification extends ToastOptions {
+  id: number;
+  createdAt: number; // Milliseconds
+  read: boolean;
+}
+
+export interface ToastContextValue {
+  toast: (options: ToastOptions) => number;
+  dismiss: (id: number) => void;
+  notifications: Notification[];
+  unreadCount: number;
+  markAllRead: () => void;
+  clearNotifications: () => void;
+}
+
+export const ToastContext = createContext<ToastContextValue | null>(null);
+
+const useToastContext = () => {
+  const context = useContext(ToastContext);
+  if (!context) throw new Error('useToast must be used within a ToastProvider');
+  return context;
+};
+
+/** Show a toast; it is queued behind any already on screen and recorded in the notification center. */
+export const useToast = () => {
+  const { toast, dismiss } = useToastContext();
+  return { toast, dismiss };
+};
+
+/** The most recent toasts, newest first, for the notification center. */
+export const useNotifications = () => {
+  const { notifications, unreadCount, markAllRead, clearNotifications } = useToastContext();
+  return { notifications, unreadCount, markAllRead, clearNotifications };
+};
@@ -0,0 +1,57 @@
+import { useState, useSyncExternalStore } from 'react';
+import { useAccount, useChainId, useConfig } from 'wagmi';
+import type { Hash } from 'viem';
+import { formatContractError } from '../lib/contracts/errors';
+import { getTransactions, subscribe, trackTransaction } from '../lib/transactions/txManager';
+import { TrackedTxStatus } from '../types/transaction';
+
+/**
+ * Follow one contract write from signature to receipt through the global
+ * transaction manager. Hand `track` a label and the promise returned by
+ * `writeContractAsync`; `isConfirmed` and `isFailed` reflect the mined
+ * result (or a rejected signature), not the wallet accepting the request.
+ */
+export const useTrackedTx = () => {
+  const config = useConfig();
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const transactions = useSyncExternalStore(subscribe, getTransactions);
+
+  const [hash, setHash] = useState<Hash>();
+  const [isSigning, setIsSigning] = useState(false);
+  const [signError, setSignError] = useState<string>();
+
+  const tx = hash ? transactions.find((tracked) => tracked.hash === hash) : undefined;
+
+  const track = async (label: string, submit: Promise<Hash>) => {
+    setHash(undefined);
+    setSignError(undefined);
+    setIsSigning(true);
+
+    try {
+      const submitted = await submit;
+      if (address) trackTransaction(config, { hash: submitted, label, chainId, account: address });
+      setHash(submitted);
+      return submitted;
+    } catch (error) {
+      setSignError(formatContractError(error));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const reset = () => {
+    setHash(undefined);
+    setSignError(undefined);
+  };
+
+  return {
+    track,
+    reset,
+    hash,
+    isPending: isSigning || tx?.status === TrackedTxStatus.Pending,
+    isConfirmed: tx?.status === TrackedTxStatus.Confirmed,
+    isFailed: !!signError || tx?.status === TrackedTxStatus.Failed,
+    error: signError ?? tx?.error,
+  };
+};
@@ -0,0 +1,68 @@
+import { useEffect, useMemo } from 'react';
+import { useBlockNumber, usePublicClient } from 'wagmi';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getEvents } from '../lib/indexer/db';
+import { getAccountKey, syncAccount } from '../lib/indexer/indexer';
+import { useActiveChainId } from './useContract';
+import { useViewedAccount } from './useViewedAccount';
+
+/**
+ * The viewed account's protocol history from the local event indexer,
+ * newest first. Cached events are served from IndexedDB straight away while
+ * the indexer backfills from its checkpoint, then tails one sync per block.
+ */
+export const useTransactions = () => {
+  const { address } = useViewedAccount();
+  const chainId = useActiveChainId();
+  const publicClient = usePublicClient({ chainId });
+  const queryClient = useQueryClient();
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+
+  const accountKey = address ? getAccountKey(chainId, address) : undefined;
+
+  const {
+    data: storedEvents,
+    isLoading,
+  } = useQuery({
+    queryKey: ['indexedEvents', accountKey],
+    enabled: !!accountKey,
+    queryFn: () => getEvents(accountKey!),
+  });
+
+  const {
+    data: lastBlock,
+    isFetching: isSyncing,
+    error,
+    refetch: resync,
+  } = useQuery({
+    queryKey: ['indexerSync', accountKey],
+    enabled: !!publicClient && !!address,
+    queryFn: async () => {
+      const head = await syncAccount(publicClient!, chainId, address!);
+      await queryClient.invalidateQueries({ queryKey: ['indexedEvents', accountKey] });
+      return head;
+    },
+  });
+
+  // Tail new blocks; never restart a sync that is still running
+  useEffect(() => {
+    if (blockNumber === undefined) return;
+    resync({ cancelRefetch: false });
+  }, [blockNumber, resync]);
+
+  const events = useMemo(
+    () =>
+      [...(storedEvents ?? [])].sort((a, b) =>
+        a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : a.blockNumber < b.blockNumber ? 1 : -1
+      ),
+    [storedEvents]
+  );
+
+  return {
+    events,
+    isLoading,
+    isSyncing,
+    lastBlock,
+    error,
+  };
+};
@@ -0,0 +1,63 @@
+import { useAccount, useReadContract, useWriteContract } from 'wagmi';
+import { useEffect } from 'react';
+import type { Address } from 'viem';
+import { MockUSDTABI } from '../lib/contracts/abis/MockUSDT';
+import { formatUsdt } from '../lib/utils/format';
+import { useTrackedTx } from './useTrackedTx';
+import { useContractAddresses } from './useContract';
+
+/**
+ * USDT balance and allowance of the connected wallet towards `spender`,
+ * with an approve action that refreshes the allowance once confirmed.
+ */
+export const useUsdtApproval = (spender: Address) => {
+  const addresses = useContractAddresses();
+  const { address, isConnected } = useAccount();
+  const enabled = isConnected && !!address;
+
+  const { data: usdtBalance, refetch: refetchBalance } = useReadContract({
+    address: addresses.mockUSDT,
+    abi: MockUSDTABI,
+    functionName: 'balanceOf',
+    args: address ? [address] : undefined,
+    query: { enabled },
+  });
+
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: addresses.mockUSDT,
+    abi: MockUSDTABI,
+    functionName: 'allowance',
+    args: address ? [address, spender] : undefined,
+    query: { enabled },
+  });
+
+  const { writeContractAsync } = useWriteContract();
+  const approveTx = useTrackedTx();
+
+  useEffect(() => {
+    if (approveTx.isConfirmed) refetchAllowance();
+  }, [approveTx.isConfirmed, refetchAllowance]);
+
+  const approve = (amount: bigint) => {
+    if (!address) return;
+
+    approveTx.track(
+      `Approve ${formatUsdt(amount)} USDT`,
+      writeContractAsync({
+        address: addresses.mockUSDT,
+        abi: MockUSDTABI,
+        functionName: 'approve',
+        args: [spender, amount],
+      })
+    );
+  };
+
+  return {
+    usdtBalance: usdtBalance ?? 0n,
+    allowance: allowance ?? 0n,
+    approve,
+    isApprovePending: approveTx.isPending,
+    refetchBalance,
+    refetchAllowance,
+  };
+};
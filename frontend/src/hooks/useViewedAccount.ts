@@ -0,0 +1,41 @@
+import { useAccount } from 'wagmi';
+import { useSearchParams } from 'react-router-dom';
+import { getAddress, isAddress, isAddressEqual } from 'viem';
+import type { Address } from 'viem';
+
+// Query param naming an account to view without connecting it
+export const WATCH_PARAM = 'address';
+
+/**
+ * The account the read hooks report on: the address in `?address=` when one
+ * is given, else the connected wallet. Watching any account other than the
+ * connected one is read-only, so the write helpers refuse to run.
+ */
+export const useViewedAccount = () => {
+  const { address: connected } = useAccount();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const param = searchParams.get(WATCH_PARAM);
+  const watched = param && isAddress(param) ? getAddress(param) : undefined;
+  const isWatching = !!watched && !(connected && isAddressEqual(watched, connected));
+
+  // Start watching `account`, or go back to the connected wallet when undefined
+  const watch = (account?: Address) =>
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (account) next.set(WATCH_PARAM, account);
+      else next.delete(WATCH_PARAM);
+      return next;
+    });
+
+  // Carry the watched account over to another page
+  const linkTo = (path: string) => (isWatching ? `${path}?${WATCH_PARAM}=${watched}` : path);
+
+  return {
+    address: watched ?? connected,
+    isWatching,
+    isReadOnly: isWatching,
+    watch,
+    linkTo,
+  };
+};
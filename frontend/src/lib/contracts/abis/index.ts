@@ -5,3 +5,4 @@ export { CollateralManagerABI } from './CollateralManager';
 export { CreditScoreABI } from './CreditScore';
 export { LendingPoolABI } from './LendingPool';
 export { LoanManagerABI } from './LoanManager';
+export { IPriceOracleABI } from './IPriceOracle';
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getDeployedChainIds, getDeployment } from './addresses';
+
+const contracts = vi.hoisted(() => ({
+  mockUSDT: '0x0000000000000000000000000000000000000001',
+  usdtFaucet: '0x0000000000000000000000000000000000000002',
+  interestCalculator: '0x0000000000000000000000000000000000000003',
+  collateralManager: '0x0000000000000000000000000000000000000004',
+  creditScore: '0x0000000000000000000000000000000000000005',
+  lendingPool: '0x0000000000000000000000000000000000000006',
+  loanManager: '0x0000000000000000000000000000000000000007',
+}));
+
+vi.mock('./deployments.json', () => ({
+  default: {
+    '5003': { deploymentBlock: 1234, contracts },
+    '5000': { deploymentBlock: 0, contracts: { ...contracts, lendingPool: '0x0000000000000000000000000000000000000000' } },
+    '31337': { deploymentBlock: 0, contracts: { mockUSDT: contracts.mockUSDT } },
+  },
+}));
+
+describe('getDeployment', () => {
+  it('returns a complete deployment with its start block', () => {
+    expect(getDeployment(5003)).toEqual({ contracts, deploymentBlock: 1234n });
+  });
+
+  it('treats zero or missing addresses as not deployed', () => {
+    expect(getDeployment(5000)).toBeUndefined();
+    expect(getDeployment(31337)).toBeUndefined();
+  });
+
+  it('returns undefined for unknown chains', () => {
+    expect(getDeployment(1)).toBeUndefined();
+  });
+});
+
+describe('getDeployedChainIds', () => {
+  it('lists only chains with a complete deployment', () => {
+    expect(getDeployedChainIds()).toEqual([5003]);
+  });
+});
@@ -1,4 +1,6 @@
+import { isAddress, zeroAddress } from 'viem';
 import type { Address } from 'viem';
+import deployments from './deployments.json';
 
 export interface ContractAddresses {
   mockUSDT: Address;
@@ -10,32 +12,42 @@ export interface ContractAddresses {
   loanManager: Address;
 }
 
-const MANTLE_SEPOLIA_ADDRESSES: ContractAddresses = {
-  mockUSDT: (import.meta.env.VITE_MOCK_USDT_ADDRESS || '0x0000000000000000000000000000000000000000') as Address,
-  usdtFaucet: (import.meta.env.VITE_USDT_FAUCET_ADDRESS || '0x0000000000000000000000000000000000000000') as Address,
-  interestCalculator: (import.meta.env.VITE_INTEREST_CALCULATOR_ADDRESS || '0x0000000000000000000000000000000000000000') as Address,
-  collateralManager: (import.meta.env.VITE_COLLATERAL_MANAGER_ADDRESS || '0x0000000000000000000000000000000000000000') as Address,
-  creditScore: (import.meta.env.VITE_CREDIT_SCORE_ADDRESS || '0x0000000000000000000000000000000000000000') as Address,
-  lendingPool: (import.meta.env.VITE_LENDING_POOL_ADDRESS || '0x0000000000000000000000000000000000000000') as Address,
-  loanManager: (import.meta.env.VITE_LOAN_MANAGER_ADDRESS || '0x0000000000000000000000000000000000000000') as Address,
-};
+export interface Deployment {
+  contracts: ContractAddresses;
+  deploymentBlock: bigint; // First block worth scanning for protocol events
+}
 
-const LOCAL_ADDRESSES: ContractAddresses = {
-  mockUSDT: '0x5FbDB2315678afecb367f032d93F642f64180aa3' as Address,
-  usdtFaucet: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512' as Address,
-  interestCalculator: '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9' as Address,
-  collateralManager: '0x5FC8d32690cc91D4c39d9d3abcBD16989F875707' as Address,
-  creditScore: '0x0165878A594ca255338adfa4d48449f69242Eb8F' as Address,
-  lendingPool: '0xa513E6E4b8f2a923D98304ec87F64353C4D5C853' as Address,
-  loanManager: '0x2279B7A0a67DB372996a5FaB50D91eAA73d2eBe6' as Address,
-};
+const CONTRACT_NAMES: (keyof ContractAddresses)[] = [
+  'mockUSDT',
+  'usdtFaucet',
+  'interestCalculator',
+  'collateralManager',
+  'creditScore',
+  'lendingPool',
+  'loanManager',
+];
 
-const isLocalDevelopment = import.meta.env.VITE_USE_LOCAL_CONTRACTS === 'true';
+// Generated from the Foundry broadcast logs by `npm run generate:deployments`
+const registry: Record<string, { deploymentBlock: number; contracts: Partial<Record<string, string>> }> = deployments;
 
-export const contractAddresses: ContractAddresses = isLocalDevelopment 
-  ? LOCAL_ADDRESSES 
-  : MANTLE_SEPOLIA_ADDRESSES;
+/**
+ * The protocol deployment on `chainId`. Undefined when the chain has no entry
+ * or any contract is missing or at the zero address, so callers never send
+ * reads or writes to 0x000…0.
+ */
+export const getDeployment = (chainId: number): Deployment | undefined => {
+  const entry = registry[chainId];
+  if (!entry) return undefined;
 
-export const getContractAddress = (contractName: keyof ContractAddresses): Address => {
-  return contractAddresses[contractName];
+  const contracts: Partial<ContractAddresses> = {};
+  for (const name of CONTRACT_NAMES) {
+    const address = entry.contracts[name];
+    if (!address || !isAddress(address) || address === zeroAddress) return undefined;
+    contracts[name] = address;
+  }
+
+  return { contracts: contracts as ContractAddresses, deploymentBlock: BigInt(entry.deploymentBlock) };
 };
+
+/** Chain ids with a complete protocol deployment. */
+export const getDeployedChainIds = () => Object.keys(registry).map(Number).filter((id) => !!getDeployment(id));
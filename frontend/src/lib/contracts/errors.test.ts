@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BaseError,
+  CallExecutionError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  RawContractError,
+  UserRejectedRequestError,
+  encodeErrorResult,
+} from 'viem';
+import type { Abi, Hex } from 'viem';
+import { LoanManagerABI } from './abis/LoanManager';
+import { LendingPoolABI } from './abis/LendingPool';
+import { decodeContractError, formatContractError } from './errors';
+
+const ADDRESS = '0x0000000000000000000000000000000000000001';
+
+const errorStringAbi = [
+  { type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] },
+] as const;
+
+const customError = (abi: Abi, errorName: string) => encodeErrorResult({ abi, errorName });
+const requireReason = (reason: string) =>
+  encodeErrorResult({ abi: errorStringAbi, errorName: 'Error', args: [reason] });
+
+// What writeContract/simulateContract throw when the called contract reverts
+const writeRevert = (abi: Abi, functionName: string, data: Hex) =>
+  new ContractFunctionExecutionError(new ContractFunctionRevertedError({ abi, data, functionName }), {
+    abi,
+    args: [],
+    functionName,
+    contractAddress: ADDRESS,
+  });
+
+// What a raw eth_call replay of a reverted transaction throws
+const callRevert = (data: Hex) => new CallExecutionError(new RawContractError({ data }), {});
+
+describe('decodeContractError', () => {
+  it('decodes a custom error from the called contract', () => {
+    const error = writeRevert(
+      LoanManagerABI as Abi,
+      'createLoanWithUsdt',
+      customError(LoanManagerABI as Abi, 'InsufficientPoolLiquidity')
+    );
+
+    expect(decodeContractError(error)).toEqual({
+      name: 'InsufficientPoolLiquidity',
+      message: "Pool doesn't have enough liquidity",
+      suggestion: 'try a smaller amount',
+    });
+  });
+
+  it('decodes a custom error raised by a nested contract', () => {
+    // StalePriceData is declared on CollateralManager, not LoanManager
+    const stale = encodeErrorResult({
+      abi: [{ type: 'error', name: 'StalePriceData', inputs: [] }],
+      errorName: 'StalePriceData',
+    });
+    const error = writeRevert(LoanManagerABI as Abi, 'createLoanWithEth', stale);
+
+    expect(decodeContractError(error).name).toBe('StalePriceData');
+  });
+
+  it('maps require() reasons', () => {
+    const error = writeRevert(LendingPoolABI as Abi, 'withdraw', requireReason('LendingPool: insufficient balance'));
+
+    expect(formatContractError(error)).toBe("You can't withdraw more than you deposited — enter a smaller amount");
+  });
+
+  it('decodes revert data from a replayed call', () => {
+    expect(decodeContractError(callRevert(requireReason('USDTFaucet: claim too soon')))).toMatchObject({
+      name: 'USDTFaucet: claim too soon',
+      message: "You've already claimed in the last 24 hours",
+    });
+    expect(decodeContractError(callRevert(customError(LoanManagerABI as Abi, 'LoanNotActive'))).name).toBe(
+      'LoanNotActive'
+    );
+  });
+
+  it('names unmapped require() reasons verbatim', () => {
+    expect(formatContractError(callRevert(requireReason('Something: odd')))).toBe('Transaction reverted: Something: odd');
+  });
+
+  it('recognises wallet rejections and missing gas funds', () => {
+    expect(formatContractError(new UserRejectedRequestError(new Error('denied')))).toBe(
+      'Transaction was rejected in your wallet'
+    );
+    expect(decodeContractError(new InsufficientFundsError()).name).toBe('InsufficientFunds');
+  });
+
+  it('falls back to the short message of other errors', () => {
+    expect(formatContractError(new BaseError('RPC unavailable'))).toBe('RPC unavailable');
+    expect(formatContractError(new Error('boom'))).toBe('boom');
+    expect(formatContractError('nope')).toBe('Something went wrong');
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  RawContractError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+} from 'viem';
+import type { Abi, Hex } from 'viem';
+import { CollateralManagerABI } from './abis/CollateralManager';
+import { CreditScoreABI } from './abis/CreditScore';
+import { InterestCalculatorABI } from './abis/InterestCalculator';
+import { LendingPoolABI } from './abis/LendingPool';
+import { LoanManagerABI } from './abis/LoanManager';
+import { MockUSDTABI } from './abis/MockUSDT';
+import { USDTFaucetABI } from './abis/USDTFaucet';
+
+type AbiError = Extract<Abi[number], { type: 'error' }>;
+
+export interface DecodedError {
+  name?: string; // Custom error name or require() reason, when known
+  message: string;
+  suggestion?: string; // Lower-case clause that follows the message, e.g. "try a smaller amount"
+}
+
+interface FriendlyError {
+  message: string;
+  suggestion?: string;
+}
+
+// Custom errors declared by the OnLoan contracts and the OpenZeppelin bases they inherit
+const CUSTOM_ERRORS: Record<string, FriendlyError> = {
+  // LoanManager
+  InvalidLoanAmount: {
+    message: 'Loan amount is outside the allowed range',
+    suggestion: 'check the minimum loan amount and your credit limit',
+  },
+  InvalidDuration: { message: 'Loan duration is not allowed', suggestion: 'choose between 7 and 365 days' },
+  InsufficientCollateral: {
+    message: 'Not enough collateral for this loan',
+    suggestion: 'add more collateral or borrow less',
+  },
+  LoanNotActive: { message: 'This loan is no longer active', suggestion: 'refresh to see its latest status' },
+  LoanAlreadyRepaid: { message: 'This loan has already been repaid' },
+  InsufficientRepayment: { message: 'Repayment amount is too low', suggestion: 'enter a larger amount' },
+  LoanNotDue: {
+    message: "This loan isn't overdue yet",
+    suggestion: 'it can only be marked as defaulted once the 3-day grace period after its due date has passed',
+  },
+  InvalidLoanId: { message: 'Loan not found', suggestion: 'check the loan ID' },
+  NotLoanBorrower: { message: 'Only the borrower can do this' },
+  InvalidTreasuryAddress: { message: 'Treasury address is invalid', suggestion: 'enter a non-zero address' },
+  NoFeesToWithdraw: { message: 'There are no protocol fees to withdraw' },
+  InsufficientPoolLiquidity: {
+    message: "Pool doesn't have enough liquidity",
+    suggestion: 'try a smaller amount',
+  },
+  // CollateralManager
+  InvalidCollateralAmount: { message: 'Collateral amount is invalid', suggestion: 'enter an amount greater than zero' },
+  CollateralAlreadyLocked: { message: 'Collateral is already locked for this loan' },
+  CollateralNotActive: { message: "This loan's collateral has already been released or liquidated" },
+  InsufficientEthSent: {
+    message: 'Not enough ETH was sent as collateral',
+    suggestion: 'increase the ETH collateral amount',
+  },
+  LoanNotLiquidatable: {
+    message: "This loan can't be liquidated",
+    suggestion: 'its collateral is still above the liquidation threshold',
+  },
+  StalePriceData: {
+    message: 'The ETH price feed is out of date',
+    suggestion: 'wait for the oracle to update and try again',
+  },
+  InvalidPriceOracle: { message: 'The price oracle address is invalid' },
+  CollateralTransferFailed: { message: 'Collateral transfer failed', suggestion: 'try again in a moment' },
+  // CreditScore / LendingPool
+  OnlyLoanManager: { message: 'Only the LoanManager contract can do this' },
+  InvalidScore: { message: 'Credit score is out of range' },
+  InvalidAddress: { message: 'Address is invalid', suggestion: 'enter a non-zero address' },
+  // OpenZeppelin
+  EnforcedPause: { message: 'The protocol is paused', suggestion: 'try again once it has been unpaused' },
+  ExpectedPause: { message: 'The protocol is not paused' },
+  OwnableUnauthorizedAccount: { message: 'Only the contract owner can do this' },
+  ReentrancyGuardReentrantCall: { message: 'Reentrant call rejected' },
+  ERC20InsufficientBalance: {
+    message: 'Not enough USDT in your wallet',
+    suggestion: 'claim test USDT from the faucet or enter a smaller amount',
+  },
+  ERC20InsufficientAllowance: {
+    message: 'USDT allowance is too low',
+    suggestion: 'approve USDT first, then try again',
+  },
+};
+
+// require() reason strings
+const REVERT_REASONS: Record<string, FriendlyError> = {
+  'LendingPool: zero amount': { message: 'Amount must be greater than zero' },
+  'LendingPool: insufficient balance': {
+    message: "You can't withdraw more than you deposited",
+    suggestion: 'enter a smaller amount',
+  },
+  'LendingPool: insufficient liquidity': {
+    message: "Pool doesn't have enough liquidity",
+    suggestion: 'try a smaller amount or wait for loans to be repaid',
+  },
+  'LendingPool: no interest': { message: 'You have no interest to claim yet' },
+  'LendingPool: transfer failed': {
+    message: 'USDT transfer failed',
+    suggestion: 'check your USDT balance and allowance',
+  },
+  'USDTFaucet: claim too soon': {
+    message: "You've already claimed in the last 24 hours",
+    suggestion: 'wait for the cooldown to end',
+  },
+  'USDTFaucet: insufficient balance': { message: 'The faucet is empty', suggestion: 'try again later' },
+  'USDTFaucet: transfer failed': { message: 'Faucet transfer failed', suggestion: 'try again later' },
+  'USDTFaucet: zero amount': { message: 'Amount must be greater than zero' },
+  'LendingPool: zero address': { message: 'Address is invalid', suggestion: 'enter a non-zero address' },
+  'MockUSDT: mint to zero address': { message: 'Address is invalid', suggestion: 'enter a non-zero address' },
+  'MockUSDT: mint amount zero': { message: 'Amount must be greater than zero' },
+  'InterestCalculator: zero principal': { message: 'Loan amount must be greater than zero' },
+  'InterestCalculator: zero duration': { message: 'Loan duration must be at least one day' },
+  'InterestCalculator: duration too long': {
+    message: 'Loan duration is too long',
+    suggestion: 'choose at most 365 days',
+  },
+  'InterestCalculator: invalid utilization': { message: 'Pool utilization is out of range' },
+};
+
+// Every error item across the OnLoan ABIs, so a revert bubbling up from a nested
+// call (e.g. CollateralManager inside LoanManager.createLoanWithEth) still decodes
+const ERROR_ABI = Object.values(
+  Object.fromEntries(
+    (
+      [
+        CollateralManagerABI,
+        CreditScoreABI,
+        InterestCalculatorABI,
+        LendingPoolABI,
+        LoanManagerABI,
+        MockUSDTABI,
+        USDTFaucetABI,
+      ] as Abi[]
+    )
+      .flat()
+      .filter((item): item is AbiError => item.type === 'error')
+      .map((item) => [item.name, item])
+  )
+);
+
+const fromName = (name: string): DecodedError | undefined => {
+  const friendly = CUSTOM_ERRORS[name] ?? REVERT_REASONS[name];
+  return friendly ? { name, ...friendly } : undefined;
+};
+
+const decodeRevertData = (data: Hex): DecodedError | undefined => {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: ERROR_ABI, data });
+    // Error(string) carries a require() reason
+    const name = errorName === 'Error' ? (args as readonly [string])[0] : errorName;
+    return fromName(name) ?? { name, message: `Transaction reverted: ${name}` };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Turn any error from a contract read, simulation, write or receipt into a
+ * friendly message. Reverts are decoded against every OnLoan ABI; wallet
+ * rejections and gas shortfalls get their own messages.
+ */
+export const decodeContractError = (error: unknown): DecodedError => {
+  if (!(error instanceof BaseError)) {
+    return { message: error instanceof Error ? error.message : 'Something went wrong' };
+  }
+
+  if (error.walk((e) => e instanceof UserRejectedRequestError)) {
+    return { name: 'UserRejectedRequest', message: 'Transaction was rejected in your wallet' };
+  }
+  if (error.walk((e) => e instanceof InsufficientFundsError)) {
+    return {
+      name: 'InsufficientFunds',
+      message: 'Not enough MNT to pay for gas',
+      suggestion: 'top up from the Mantle faucet',
+    };
+  }
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError) as
+    | ContractFunctionRevertedError
+    | null;
+  if (reverted) {
+    const name = reverted.data?.errorName === 'Error' ? reverted.reason : reverted.data?.errorName ?? reverted.reason;
+    const decoded = (name && fromName(name)) || (reverted.raw && decodeRevertData(reverted.raw));
+    if (decoded) return decoded;
+  }
+
+  const raw = error.walk((e) => e instanceof RawContractError) as RawContractError | null;
+  const rawData = typeof raw?.data === 'object' ? raw.data.data : raw?.data;
+  const decoded = rawData && decodeRevertData(rawData);
+  if (decoded) return decoded;
+
+  return { message: error.shortMessage };
+};
+
+/**
+ * Single-line form for toasts and inline form errors,
+ * e.g. "Pool doesn't have enough liquidity — try a smaller amount".
+ */
+export const formatContractError = (error: unknown) => {
+  const { message, suggestion } = decodeContractError(error);
+  return suggestion ? `${message} — ${suggestion}` : message;
+};
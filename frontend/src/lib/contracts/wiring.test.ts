@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { Address } from 'viem';
+import type { ContractAddresses } from './addresses';
+import { WIRING, checkWiring, getOwningContract } from './wiring';
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, '0')}` as Address;
+
+const addresses: ContractAddresses = {
+  mockUSDT: address(1),
+  usdtFaucet: address(2),
+  interestCalculator: address(3),
+  collateralManager: address(4),
+  creditScore: address(5),
+  lendingPool: address(6),
+  loanManager: address(0xabc),
+};
+
+describe('checkWiring', () => {
+  it('matches addresses case-insensitively against the registry', () => {
+    const [status] = checkWiring(
+      [{ contract: 'lendingPool', getter: 'loanManager', label: 'Loan manager', expected: 'loanManager' }],
+      ['0x0000000000000000000000000000000000000ABC'],
+      addresses
+    );
+
+    expect(status.expectedAddress).toBe(addresses.loanManager);
+    expect(status.isCorrect).toBe(true);
+  });
+
+  it('flags a link pointing at another contract', () => {
+    const [status] = checkWiring(
+      [{ contract: 'creditScore', getter: 'loanManager', label: 'Loan manager', expected: 'loanManager' }],
+      [address(99)],
+      addresses
+    );
+
+    expect(status.isCorrect).toBe(false);
+  });
+
+  it('leaves external and unread links unchecked', () => {
+    const statuses = checkWiring(WIRING, [], addresses);
+
+    expect(statuses).toHaveLength(WIRING.length);
+    expect(statuses.every((status) => status.isCorrect === undefined)).toBe(true);
+    expect(statuses.find((status) => status.getter === 'priceOracle')?.expectedAddress).toBeUndefined();
+  });
+});
+
+describe('getOwningContract', () => {
+  it('names the protocol contract that owns another', () => {
+    expect(getOwningContract(addresses.loanManager, addresses)).toBe('loanManager');
+    expect(getOwningContract(address(99), addresses)).toBeUndefined();
+    expect(getOwningContract(undefined, addresses)).toBeUndefined();
+  });
+});
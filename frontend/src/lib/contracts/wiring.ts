@@ -0,0 +1,91 @@
+import { isAddressEqual } from 'viem';
+import type { Address } from 'viem';
+import type { ContractAddresses } from './addresses';
+
+type ContractName = keyof ContractAddresses;
+
+export const CONTRACT_LABELS: Record<ContractName, string> = {
+  mockUSDT: 'MockUSDT',
+  usdtFaucet: 'USDTFaucet',
+  interestCalculator: 'InterestCalculator',
+  collateralManager: 'CollateralManager',
+  creditScore: 'CreditScore',
+  lendingPool: 'LendingPool',
+  loanManager: 'LoanManager',
+};
+
+// Contracts with an owner() and owner-only functions, and the subset that can be paused
+export const OWNABLE_CONTRACTS = [
+  'loanManager',
+  'lendingPool',
+  'collateralManager',
+  'creditScore',
+  'usdtFaucet',
+  'mockUSDT',
+] as const satisfies readonly ContractName[];
+export const PAUSABLE_CONTRACTS = ['loanManager', 'lendingPool', 'collateralManager'] as const satisfies readonly ContractName[];
+
+export type OwnableContract = (typeof OWNABLE_CONTRACTS)[number];
+export type PausableContract = (typeof PAUSABLE_CONTRACTS)[number];
+
+export const isPausable = (contract: ContractName): contract is PausableContract =>
+  (PAUSABLE_CONTRACTS as readonly ContractName[]).includes(contract);
+
+export interface WiringLink {
+  contract: ContractName;
+  getter: string; // Address-returning view function on `contract`
+  label: string;
+  expected?: ContractName; // The deployment entry it should point at; external addresses have none
+}
+
+/** Every address one protocol contract stores for another, as set at deployment or by the owner. */
+export const WIRING = [
+  { contract: 'loanManager', getter: 'lendingPool', label: 'Lending pool', expected: 'lendingPool' },
+  { contract: 'loanManager', getter: 'collateralManager', label: 'Collateral manager', expected: 'collateralManager' },
+  { contract: 'loanManager', getter: 'creditScore', label: 'Credit score', expected: 'creditScore' },
+  { contract: 'loanManager', getter: 'interestCalculator', label: 'Interest calculator', expected: 'interestCalculator' },
+  { contract: 'loanManager', getter: 'usdt', label: 'USDT', expected: 'mockUSDT' },
+  { contract: 'loanManager', getter: 'protocolTreasury', label: 'Protocol treasury' },
+  { contract: 'lendingPool', getter: 'loanManager', label: 'Loan manager', expected: 'loanManager' },
+  { contract: 'lendingPool', getter: 'interestCalculator', label: 'Interest calculator', expected: 'interestCalculator' },
+  { contract: 'lendingPool', getter: 'usdt', label: 'USDT', expected: 'mockUSDT' },
+  { contract: 'collateralManager', getter: 'priceOracle', label: 'Price oracle' },
+  { contract: 'collateralManager', getter: 'usdt', label: 'USDT', expected: 'mockUSDT' },
+  { contract: 'creditScore', getter: 'loanManager', label: 'Loan manager', expected: 'loanManager' },
+  { contract: 'usdtFaucet', getter: 'usdtToken', label: 'USDT', expected: 'mockUSDT' },
+] as const satisfies readonly WiringLink[];
+
+/**
+ * The protocol contract at `owner`, if any. Deploy.s.sol hands CollateralManager to
+ * LoanManager, so its owner-only functions can't be called from any wallet.
+ */
+export const getOwningContract = (owner: Address | undefined, addresses: ContractAddresses) =>
+  owner
+    ? (Object.keys(addresses) as ContractName[]).find((contract) => isAddressEqual(addresses[contract], owner))
+    : undefined;
+
+export interface WiringStatus extends WiringLink {
+  actual?: Address; // Undefined until read
+  expectedAddress?: Address;
+  isCorrect?: boolean; // Undefined for external addresses and unread links
+}
+
+/**
+ * Pair each link with the address read from the chain (`actual`, in the
+ * same order as `links`) and compare it against the deployment registry.
+ */
+export const checkWiring = (
+  links: readonly WiringLink[],
+  actual: readonly (Address | undefined)[],
+  addresses: ContractAddresses
+): WiringStatus[] =>
+  links.map((link, i) => {
+    const value = actual[i];
+    const expectedAddress = link.expected ? addresses[link.expected] : undefined;
+    return {
+      ...link,
+      actual: value,
+      expectedAddress,
+      isCorrect: value && expectedAddress ? isAddressEqual(value, expectedAddress) : undefined,
+    };
+  });
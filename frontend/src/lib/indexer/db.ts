@@ -0,0 +1,58 @@
+import type { IndexedEvent, IndexerCheckpoint } from '../../types/transaction';
+
+const DB_NAME = 'onloan-indexer';
+const DB_VERSION = 1;
+
+const EVENTS_STORE = 'events';
+const CHECKPOINTS_STORE = 'checkpoints';
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = () => {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+      events.createIndex('accountKey', 'accountKey');
+      db.createObjectStore(CHECKPOINTS_STORE, { keyPath: 'accountKey' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return dbPromise;
+};
+
+export const getEvents = async (accountKey: string): Promise<IndexedEvent[]> => {
+  const db = await openDb();
+  const store = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE);
+  return promisify(store.index('accountKey').getAll(accountKey) as IDBRequest<IndexedEvent[]>);
+};
+
+export const getCheckpoint = async (accountKey: string): Promise<IndexerCheckpoint | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(CHECKPOINTS_STORE).objectStore(CHECKPOINTS_STORE);
+  return promisify(store.get(accountKey) as IDBRequest<IndexerCheckpoint | undefined>);
+};
+
+/** Store a scanned range's events and advance the checkpoint atomically. */
+export const saveScan = async (events: IndexedEvent[], checkpoint: IndexerCheckpoint) => {
+  const db = await openDb();
+  const tx = db.transaction([EVENTS_STORE, CHECKPOINTS_STORE], 'readwrite');
+
+  for (const event of events) tx.objectStore(EVENTS_STORE).put(event);
+  tx.objectStore(CHECKPOINTS_STORE).put(checkpoint);
+
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
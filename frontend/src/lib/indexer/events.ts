@@ -0,0 +1,128 @@
+import type { Abi, AbiEvent } from 'viem';
+import { LendingPoolABI } from '../contracts/abis/LendingPool';
+import { LoanManagerABI } from '../contracts/abis/LoanManager';
+import { CollateralManagerABI } from '../contracts/abis/CollateralManager';
+import { CreditScoreABI } from '../contracts/abis/CreditScore';
+import { USDTFaucetABI } from '../contracts/abis/USDTFaucet';
+import type { ContractAddresses } from '../contracts/addresses';
+import { TransactionCategory } from '../../types/transaction';
+
+interface IndexedEventDefinition {
+  contract: keyof ContractAddresses;
+  category: TransactionCategory;
+  label: string;
+  accountArgs: string[]; // Indexed address args that tie the event to an account
+  amountArg?: string; // USDT-denominated amount, if any
+}
+
+// Every user-facing protocol event the indexer stores, keyed by event name
+export const INDEXED_EVENTS: Record<string, IndexedEventDefinition> = {
+  Deposited: {
+    contract: 'lendingPool',
+    category: TransactionCategory.Lending,
+    label: 'Deposit',
+    accountArgs: ['lender'],
+    amountArg: 'amount',
+  },
+  Withdrawn: {
+    contract: 'lendingPool',
+    category: TransactionCategory.Lending,
+    label: 'Withdrawal',
+    accountArgs: ['lender'],
+    amountArg: 'amount',
+  },
+  InterestClaimed: {
+    contract: 'lendingPool',
+    category: TransactionCategory.Lending,
+    label: 'Interest Claimed',
+    accountArgs: ['lender'],
+    amountArg: 'amount',
+  },
+  LoanCreated: {
+    contract: 'loanManager',
+    category: TransactionCategory.Loans,
+    label: 'Loan Created',
+    accountArgs: ['borrower'],
+    amountArg: 'amount',
+  },
+  LoanRepaid: {
+    contract: 'loanManager',
+    category: TransactionCategory.Loans,
+    label: 'Repayment',
+    accountArgs: ['borrower'],
+    amountArg: 'amount',
+  },
+  LoanCompleted: {
+    contract: 'loanManager',
+    category: TransactionCategory.Loans,
+    label: 'Loan Completed',
+    accountArgs: ['borrower'],
+    amountArg: 'totalAmount',
+  },
+  LoanDefaulted: {
+    contract: 'loanManager',
+    category: TransactionCategory.Loans,
+    label: 'Loan Defaulted',
+    accountArgs: ['borrower'],
+    amountArg: 'outstandingAmount',
+  },
+  CollateralLocked: {
+    contract: 'collateralManager',
+    category: TransactionCategory.Collateral,
+    label: 'Collateral Locked',
+    accountArgs: ['borrower'],
+  },
+  CollateralReleased: {
+    contract: 'collateralManager',
+    category: TransactionCategory.Collateral,
+    label: 'Collateral Released',
+    accountArgs: ['borrower'],
+  },
+  CollateralLiquidated: {
+    contract: 'collateralManager',
+    category: TransactionCategory.Collateral,
+    label: 'Collateral Liquidated',
+    accountArgs: ['borrower', 'liquidator'],
+  },
+  ScoreUpdated: {
+    contract: 'creditScore',
+    category: TransactionCategory.Credit,
+    label: 'Credit Score Updated',
+    accountArgs: ['user'],
+  },
+  LoanRecorded: {
+    contract: 'creditScore',
+    category: TransactionCategory.Credit,
+    label: 'Loan Recorded',
+    accountArgs: ['user'],
+    amountArg: 'loanAmount',
+  },
+  RepaymentRecorded: {
+    contract: 'creditScore',
+    category: TransactionCategory.Credit,
+    label: 'Repayment Recorded',
+    accountArgs: ['user'],
+    amountArg: 'repaymentAmount',
+  },
+  DefaultRecorded: {
+    contract: 'creditScore',
+    category: TransactionCategory.Credit,
+    label: 'Default Recorded',
+    accountArgs: ['user'],
+    amountArg: 'loanAmount',
+  },
+  TokensClaimed: {
+    contract: 'usdtFaucet',
+    category: TransactionCategory.Faucet,
+    label: 'Faucet Claim',
+    accountArgs: ['user'],
+    amountArg: 'amount',
+  },
+};
+
+const abis = [LendingPoolABI, LoanManagerABI, CollateralManagerABI, CreditScoreABI, USDTFaucetABI] as Abi[];
+
+// ABI items for getLogs, so logs come back decoded
+export const INDEXED_ABI_EVENTS = abis
+  .flat()
+  .filter((item): item is AbiEvent => item.type === 'event' && item.name in INDEXED_EVENTS);
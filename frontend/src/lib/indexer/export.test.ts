@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import type { Address, Hash } from 'viem';
+import { buildHistoryRows, formatUsdtFixed, toCsv, toJson } from './export';
+import { INDEXED_EVENTS } from './events';
+import { CollateralType } from '../../types/loan';
+import type { IndexedEvent } from '../../types/transaction';
+
+const USDT = 10n ** 6n;
+const ACCOUNT = '0x00000000000000000000000000000000000000aa' as Address;
+const OTHER = '0x00000000000000000000000000000000000000bb' as Address;
+
+let nextLogIndex = 0;
+
+const event = (eventName: string, args: Record<string, unknown>, blockNumber: bigint, timestamp: number) => {
+  const logIndex = nextLogIndex++;
+  const transactionHash = `0x${logIndex.toString(16).padStart(64, '0')}` as Hash;
+  return {
+    id: `key:${transactionHash}:${logIndex}`,
+    accountKey: 'key',
+    contract: INDEXED_EVENTS[eventName].contract,
+    eventName,
+    args,
+    blockNumber,
+    logIndex,
+    transactionHash,
+    timestamp,
+  } satisfies IndexedEvent;
+};
+
+describe('formatUsdtFixed', () => {
+  it.each([
+    [0n, '0.000000'],
+    [1n, '0.000001'],
+    [1_500_000n, '1.500000'],
+    [-1_500_000n, '-1.500000'],
+    [123_456_789_012n, '123456.789012'],
+  ])('%s -> %s', (value, expected) => {
+    expect(formatUsdtFixed(value)).toBe(expected);
+  });
+});
+
+describe('buildHistoryRows', () => {
+  const history = [
+    event('TokensClaimed', { user: ACCOUNT, amount: 1000n * USDT }, 10n, 1_000),
+    event('Deposited', { lender: ACCOUNT, amount: 600n * USDT }, 20n, 2_000),
+    event('CollateralLocked', { loanId: 1n, borrower: ACCOUNT, collateralType: CollateralType.USDT, amount: 300n * USDT }, 30n, 3_000),
+    event('LoanCreated', { loanId: 1n, borrower: ACCOUNT, amount: 200n * USDT }, 30n, 3_000),
+    event('InterestClaimed', { lender: ACCOUNT, amount: 12_345_678n }, 40n, 4_000),
+    event('LoanRepaid', { loanId: 1n, borrower: ACCOUNT, amount: 50n * USDT }, 50n, 5_000),
+    event('LoanCompleted', { loanId: 1n, borrower: ACCOUNT, totalAmount: 210n * USDT }, 50n, 5_000),
+    event('CollateralReleased', { loanId: 1n, borrower: ACCOUNT, amount: 300n * USDT }, 50n, 5_000),
+    event('Withdrawn', { lender: ACCOUNT, amount: 100n * USDT }, 60n, 6_000),
+  ];
+
+  it('keeps a running USDT balance in block order and skips non-cash events', () => {
+    const rows = buildHistoryRows([...history].reverse(), ACCOUNT);
+
+    expect(rows.map((row) => [row.type, row.amount, row.balanceChange, row.runningBalance])).toEqual([
+      ['Faucet Claim', '1000.000000', '1000.000000', '1000.000000'],
+      ['Deposit', '600.000000', '-600.000000', '400.000000'],
+      ['Collateral Locked', '300.000000', '-300.000000', '100.000000'],
+      ['Loan Created', '200.000000', '200.000000', '300.000000'],
+      ['Interest Claimed', '12.345678', '12.345678', '312.345678'],
+      ['Repayment', '50.000000', '-50.000000', '262.345678'],
+      ['Collateral Released', '300.000000', '300.000000', '562.345678'],
+      ['Withdrawal', '100.000000', '100.000000', '662.345678'],
+    ]);
+  });
+
+  it('fills timestamp, block, hash and loan id', () => {
+    const [, , , loanRow] = buildHistoryRows(history, ACCOUNT);
+
+    expect(loanRow).toMatchObject({
+      timestamp: '1970-01-01T00:50:00.000Z',
+      block: '30',
+      transactionHash: history[3].transactionHash,
+      loanId: '1',
+    });
+  });
+
+  it('filters by date range without resetting the running balance', () => {
+    const rows = buildHistoryRows(history, ACCOUNT, { from: 3_000, to: 5_000 });
+
+    expect(rows.map((row) => [row.type, row.runningBalance])).toEqual([
+      ['Collateral Locked', '100.000000'],
+      ['Loan Created', '300.000000'],
+      ['Interest Claimed', '312.345678'],
+      ['Repayment', '262.345678'],
+      ['Collateral Released', '562.345678'],
+    ]);
+  });
+
+  it('records a default without moving the balance', () => {
+    const rows = buildHistoryRows(
+      [
+        event('LoanCreated', { loanId: 2n, borrower: ACCOUNT, amount: 100n * USDT }, 1n, 1),
+        event('LoanDefaulted', { loanId: 2n, borrower: ACCOUNT, outstandingAmount: 105n * USDT }, 2n, 2),
+      ],
+      ACCOUNT
+    );
+
+    expect(rows[1]).toMatchObject({ type: 'Loan Defaulted', amount: '105.000000', runningBalance: '100.000000' });
+  });
+
+  it('credits a liquidator its USDT reward and values ETH collateral as blank', () => {
+    const rows = buildHistoryRows(
+      [
+        event('CollateralLocked', { loanId: 3n, borrower: OTHER, collateralType: CollateralType.USDT, amount: 400n * USDT }, 1n, 1),
+        event('CollateralLocked', { loanId: 4n, borrower: OTHER, collateralType: CollateralType.ETH, amount: 10n ** 18n }, 1n, 1),
+        event(
+          'CollateralLiquidated',
+          { loanId: 3n, liquidator: ACCOUNT, borrower: OTHER, collateralAmount: 400n * USDT, liquidatorReward: 20n * USDT },
+          2n,
+          2
+        ),
+        event(
+          'CollateralLiquidated',
+          { loanId: 4n, liquidator: ACCOUNT, borrower: OTHER, collateralAmount: 10n ** 18n, liquidatorReward: 5n * 10n ** 16n },
+          3n,
+          3
+        ),
+      ],
+      ACCOUNT
+    );
+
+    expect(rows.map((row) => [row.amount, row.balanceChange, row.runningBalance])).toEqual([
+      ['20.000000', '20.000000', '20.000000'],
+      ['', '0.000000', '20.000000'],
+    ]);
+  });
+
+  it("shows a liquidated borrower's forfeited USDT collateral with no balance change", () => {
+    const rows = buildHistoryRows(
+      [
+        event('CollateralLocked', { loanId: 5n, borrower: ACCOUNT, collateralType: CollateralType.USDT, amount: 300n * USDT }, 1n, 1),
+        event(
+          'CollateralLiquidated',
+          { loanId: 5n, liquidator: OTHER, borrower: ACCOUNT, collateralAmount: 300n * USDT, liquidatorReward: 15n * USDT },
+          2n,
+          2
+        ),
+      ],
+      ACCOUNT
+    );
+
+    expect(rows.map((row) => [row.type, row.amount, row.balanceChange, row.runningBalance])).toEqual([
+      ['Collateral Locked', '300.000000', '-300.000000', '-300.000000'],
+      ['Collateral Liquidated', '300.000000', '0.000000', '-300.000000'],
+    ]);
+  });
+
+  it('leaves ETH collateral locks and releases out of the balance', () => {
+    const rows = buildHistoryRows(
+      [
+        event('CollateralLocked', { loanId: 6n, borrower: ACCOUNT, collateralType: CollateralType.ETH, amount: 10n ** 18n }, 1n, 1),
+        event('CollateralReleased', { loanId: 6n, borrower: ACCOUNT, amount: 10n ** 18n }, 2n, 2),
+      ],
+      ACCOUNT
+    );
+
+    expect(rows.map((row) => [row.type, row.amount, row.runningBalance])).toEqual([
+      ['Collateral Locked', '', '0.000000'],
+      ['Collateral Released', '', '0.000000'],
+    ]);
+  });
+});
+
+describe('toCsv / toJson', () => {
+  const rows = buildHistoryRows(
+    [event('Deposited', { lender: ACCOUNT, amount: 5n * USDT }, 7n, 60)],
+    ACCOUNT
+  );
+
+  it('writes a header row and one line per row', () => {
+    expect(toCsv(rows).split('\n')).toEqual([
+      'timestamp,block,transactionHash,type,loanId,amount,balanceChange,runningBalance',
+      `1970-01-01T00:01:00.000Z,7,${rows[0].transactionHash},Deposit,,5.000000,-5.000000,-5.000000`,
+    ]);
+  });
+
+  it('round-trips through JSON', () => {
+    expect(JSON.parse(toJson(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,140 @@
+import type { Address } from 'viem';
+import { INDEXED_EVENTS } from './events';
+import { CollateralType } from '../../types/loan';
+import type { IndexedEvent } from '../../types/transaction';
+
+export interface HistoryRow {
+  timestamp: string; // ISO 8601, UTC
+  block: string;
+  transactionHash: string;
+  type: string;
+  loanId: string;
+  amount: string; // USDT with 6 decimals; empty when the value isn't USDT (ETH collateral)
+  balanceChange: string; // Signed USDT flow into the wallet
+  runningBalance: string;
+}
+
+export interface DateRange {
+  from?: number; // Unix seconds, inclusive
+  to?: number; // Unix seconds, inclusive
+}
+
+// Direction of each exported event's USDT amount relative to the wallet
+const USDT_FLOWS: Record<string, bigint> = {
+  Deposited: -1n,
+  Withdrawn: 1n,
+  InterestClaimed: 1n,
+  LoanCreated: 1n,
+  LoanRepaid: -1n,
+  LoanDefaulted: 0n,
+  CollateralLocked: -1n, // Only for USDT collateral, which leaves the wallet when locked
+  CollateralReleased: 1n, // ...and returns to it when released
+  CollateralLiquidated: 0n, // Signed per row: only the liquidator's reward is paid out
+  TokensClaimed: 1n,
+};
+
+const USDT_DECIMALS = 6;
+
+/** Format 6-decimal base units as a fixed-point string, e.g. -1500000n -> "-1.500000". */
+export const formatUsdtFixed = (value: bigint) => {
+  const sign = value < 0n ? '-' : '';
+  const abs = value < 0n ? -value : value;
+  const unit = 10n ** BigInt(USDT_DECIMALS);
+  return `${sign}${abs / unit}.${(abs % unit).toString().padStart(USDT_DECIMALS, '0')}`;
+};
+
+const isAccount = (value: unknown, account: Address) =>
+  typeof value === 'string' && value.toLowerCase() === account.toLowerCase();
+
+// Collateral locks and releases move the account's own collateral; others' are skipped
+const isCashEvent = (event: IndexedEvent, account: Address) =>
+  event.eventName in USDT_FLOWS &&
+  ((event.eventName !== 'CollateralLocked' && event.eventName !== 'CollateralReleased') ||
+    isAccount(event.args.borrower, account));
+
+// USDT amount and wallet flow for one event; collateral events depend on collateral type (and role)
+const usdtValue = (event: IndexedEvent, account: Address, collateralTypes: Map<bigint, CollateralType>) => {
+  if (event.eventName === 'CollateralLocked' || event.eventName === 'CollateralReleased') {
+    if (collateralTypes.get(event.args.loanId as bigint) !== CollateralType.USDT) return undefined;
+    const amount = event.args.amount as bigint;
+    return { amount, change: amount * USDT_FLOWS[event.eventName] };
+  }
+
+  if (event.eventName !== 'CollateralLiquidated') {
+    const amount = event.args[INDEXED_EVENTS[event.eventName].amountArg!] as bigint;
+    return { amount, change: amount * USDT_FLOWS[event.eventName] };
+  }
+
+  if (collateralTypes.get(event.args.loanId as bigint) !== CollateralType.USDT) return undefined;
+
+  const isLiquidator = isAccount(event.args.liquidator, account);
+  return isLiquidator
+    ? { amount: event.args.liquidatorReward as bigint, change: event.args.liquidatorReward as bigint }
+    : { amount: event.args.collateralAmount as bigint, change: 0n };
+};
+
+/**
+ * Build the accounting export for an account from its indexed events. The
+ * running balance is the cumulative USDT that has flowed into (or out of) the
+ * wallet through the protocol, accumulated over the whole history so rows in
+ * a date range carry their true balance. Collateral locks, releases and
+ * liquidations are only valued when their loan's CollateralLocked event is
+ * among `events`, and are left blank for ETH collateral.
+ */
+export const buildHistoryRows = (events: IndexedEvent[], account: Address, range: DateRange = {}): HistoryRow[] => {
+  const collateralTypes = new Map(
+    events
+      .filter((event) => event.eventName === 'CollateralLocked')
+      .map((event) => [event.args.loanId as bigint, Number(event.args.collateralType) as CollateralType])
+  );
+
+  const ordered = events
+    .filter((event) => isCashEvent(event, account))
+    .sort((a, b) =>
+      a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+    );
+
+  let balance = 0n;
+  const rows: HistoryRow[] = [];
+
+  for (const event of ordered) {
+    const value = usdtValue(event, account, collateralTypes);
+    balance += value?.change ?? 0n;
+
+    if (range.from !== undefined && event.timestamp < range.from) continue;
+    if (range.to !== undefined && event.timestamp > range.to) continue;
+
+    rows.push({
+      timestamp: new Date(event.timestamp * 1000).toISOString(),
+      block: event.blockNumber.toString(),
+      transactionHash: event.transactionHash,
+      type: INDEXED_EVENTS[event.eventName].label,
+      loanId: event.args.loanId !== undefined ? String(event.args.loanId) : '',
+      amount: value ? formatUsdtFixed(value.amount) : '',
+      balanceChange: formatUsdtFixed(value?.change ?? 0n),
+      runningBalance: formatUsdtFixed(balance),
+    });
+  }
+
+  return rows;
+};
+
+const CSV_COLUMNS: (keyof HistoryRow)[] = [
+  'timestamp',
+  'block',
+  'transactionHash',
+  'type',
+  'loanId',
+  'amount',
+  'balanceChange',
+  'runningBalance',
+];
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (rows: HistoryRow[]) =>
+  [CSV_COLUMNS.join(','), ...rows.map((row) => CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(','))].join(
+    '\n'
+  );
+
+export const toJson = (rows: HistoryRow[]) => JSON.stringify(rows, null, 2);
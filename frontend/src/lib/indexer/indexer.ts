@@ -0,0 +1,98 @@
+import type { Address, PublicClient } from 'viem';
+import { getDeployment } from '../contracts/addresses';
+import { INDEXED_ABI_EVENTS, INDEXED_EVENTS } from './events';
+import { getCheckpoint, saveScan } from './db';
+import type { IndexedEvent } from '../../types/transaction';
+
+// Most public RPCs cap eth_getLogs ranges around this size
+export const LOG_CHUNK_SIZE = 10_000n;
+
+/**
+ * Run `read` over `fromBlock`..`toBlock` in ranges of at most LOG_CHUNK_SIZE
+ * blocks, one after another, and concatenate the results in block order.
+ */
+export const getLogsInChunks = async <T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  read: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>
+) => {
+  const results: T[] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) {
+    const end = start + LOG_CHUNK_SIZE - 1n < toBlock ? start + LOG_CHUNK_SIZE - 1n : toBlock;
+    results.push(...(await read(start, end)));
+  }
+  return results;
+};
+
+const requireDeployment = (chainId: number) => {
+  const deployment = getDeployment(chainId);
+  if (!deployment) throw new Error(`OnLoan is not deployed on chain ${chainId}`);
+  return deployment;
+};
+
+/** Storage key scoping indexed events to one chain, deployment and account. */
+export const getAccountKey = (chainId: number, account: Address) =>
+  `${chainId}:${requireDeployment(chainId).contracts.lendingPool}:${account}`.toLowerCase();
+
+// One log filter per event and account argument, so the RPC matches the indexed topic
+// and only the account's own logs are downloaded
+const ACCOUNT_FILTERS = INDEXED_ABI_EVENTS.flatMap((event) =>
+  INDEXED_EVENTS[event.name].accountArgs.map((arg) => ({ event, arg }))
+);
+
+/**
+ * Scan every block since the account's checkpoint (or the deployment block)
+ * up to the current head, storing the protocol events that involve the
+ * account. Each chunk is saved together with its checkpoint, so an
+ * interrupted sync resumes where it stopped. Returns the last scanned block.
+ */
+export const syncAccount = async (publicClient: PublicClient, chainId: number, account: Address) => {
+  const { contracts, deploymentBlock } = requireDeployment(chainId);
+  const accountKey = getAccountKey(chainId, account);
+  const checkpoint = await getCheckpoint(accountKey);
+  const head = await publicClient.getBlockNumber();
+
+  let fromBlock = checkpoint ? checkpoint.lastBlock + 1n : deploymentBlock;
+
+  while (fromBlock <= head) {
+    const toBlock = fromBlock + LOG_CHUNK_SIZE - 1n < head ? fromBlock + LOG_CHUNK_SIZE - 1n : head;
+
+    const logsByFilter = await Promise.all(
+      ACCOUNT_FILTERS.map(({ event, arg }) =>
+        publicClient.getLogs({
+          address: contracts[INDEXED_EVENTS[event.name].contract],
+          event,
+          args: { [arg]: account },
+          fromBlock,
+          toBlock,
+        })
+      )
+    );
+    // A log naming the account in two arguments (liquidating your own loan) matches two filters
+    const matched = [
+      ...new Map(logsByFilter.flat().map((log) => [`${log.transactionHash}:${log.logIndex}`, log])).values(),
+    ];
+
+    // Resolve each distinct block once for its timestamp
+    const blockNumbers = [...new Set(matched.map((log) => log.blockNumber))];
+    const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+    const timestamps = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+    const events: IndexedEvent[] = matched.map((log) => ({
+      id: `${accountKey}:${log.transactionHash}:${log.logIndex}`,
+      accountKey,
+      contract: INDEXED_EVENTS[log.eventName].contract,
+      eventName: log.eventName,
+      args: log.args as Record<string, unknown>,
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      transactionHash: log.transactionHash,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+    }));
+
+    await saveScan(events, { accountKey, account, lastBlock: toBlock });
+    fromBlock = toBlock + 1n;
+  }
+
+  return head;
+};
@@ -0,0 +1,37 @@
+import type { Config } from 'wagmi';
+import { getAccount, getPublicClient } from 'wagmi/actions';
+import type { Abi, Address } from 'viem';
+import { formatContractError } from '../contracts/errors';
+
+// A contract write as handed to writeContractAsync
+export interface PreflightRequest {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  value?: bigint;
+}
+
+export type PreflightResult = { gasCost: bigint; error?: undefined } | { gasCost?: undefined; error: string };
+
+/**
+ * Dry-run a write from the connected account against the latest block.
+ * Resolves with the estimated gas cost in wei, or the decoded revert reason
+ * when the transaction would fail on chain.
+ */
+export const simulateTransaction = async (config: Config, request: PreflightRequest): Promise<PreflightResult> => {
+  const { address: account } = getAccount(config);
+  const client = getPublicClient(config);
+  if (!account || !client) return { error: 'Connect your wallet to a supported network' };
+
+  try {
+    await client.simulateContract({ ...request, account });
+    const [gas, gasPrice] = await Promise.all([
+      client.estimateContractGas({ ...request, account }),
+      client.getGasPrice(),
+    ]);
+    return { gasCost: gas * gasPrice };
+  } catch (error) {
+    return { error: formatContractError(error) };
+  }
+};
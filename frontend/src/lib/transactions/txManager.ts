@@ -0,0 +1,92 @@
+import type { Address, Hash, TransactionReceipt } from 'viem';
+import { waitForTransactionReceipt } from 'wagmi/actions';
+import { formatContractError } from '../contracts/errors';
+import type { Config } from 'wagmi';
+import { TrackedTxStatus } from '../../types/transaction';
+import type { TrackedTx } from '../../types/transaction';
+
+const STORAGE_KEY = 'onloan:transactions';
+
+// Oldest settled transactions are dropped beyond this
+const MAX_TRACKED = 50;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// Receipt of every transaction watched this session; undefined once it fails
+const receipts = new Map<Hash, Promise<TransactionReceipt | undefined>>();
+
+const load = (): TrackedTx[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as TrackedTx[];
+  } catch {
+    return [];
+  }
+};
+
+// Newest first; replaced wholesale on every change so it can back useSyncExternalStore
+let transactions: TrackedTx[] = typeof localStorage === 'undefined' ? [] : load();
+
+const setTransactions = (next: TrackedTx[]) => {
+  transactions = next.slice(0, MAX_TRACKED);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch {
+    // Storage full or unavailable; tracking still works for this session
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const update = (hash: Hash, changes: Partial<TrackedTx>) =>
+  setTransactions(transactions.map((tx) => (tx.hash === hash ? { ...tx, ...changes } : tx)));
+
+// Follow one transaction to its receipt; a revert or a dropped transaction marks it failed
+const watch = (config: Config, tx: TrackedTx) => {
+  if (receipts.has(tx.hash)) return;
+
+  receipts.set(
+    tx.hash,
+    waitForTransactionReceipt(config, { hash: tx.hash, chainId: tx.chainId }).then(
+      (receipt) => {
+        update(tx.hash, { status: TrackedTxStatus.Confirmed, settledAt: Date.now() });
+        return receipt;
+      },
+      (error) => {
+        update(tx.hash, { status: TrackedTxStatus.Failed, settledAt: Date.now(), error: formatContractError(error) });
+        return undefined;
+      }
+    )
+  );
+};
+
+export const subscribe = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getTransactions = () => transactions;
+
+/**
+ * Resolve with the receipt of a transaction tracked this session once it is
+ * mined, or undefined if it failed or was never tracked. Shares the watcher's
+ * receipt request instead of polling for it again.
+ */
+export const waitForTrackedTransaction = (hash: Hash) => receipts.get(hash) ?? Promise.resolve(undefined);
+
+/** Record a just-submitted transaction as pending and start waiting for its receipt. */
+export const trackTransaction = (
+  config: Config,
+  { hash, label, chainId, account }: { hash: Hash; label: string; chainId: number; account: Address }
+) => {
+  const tx: TrackedTx = { hash, label, chainId, account, status: TrackedTxStatus.Pending, submittedAt: Date.now() };
+  setTransactions([tx, ...transactions.filter((existing) => existing.hash !== hash)]);
+  watch(config, tx);
+};
+
+/** Re-attach receipt watchers to transactions still pending from a previous session. */
+export const resumePendingTransactions = (config: Config) => {
+  transactions.filter((tx) => tx.status === TrackedTxStatus.Pending).forEach((tx) => watch(config, tx));
+};
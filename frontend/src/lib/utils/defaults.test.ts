@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CollateralType } from '../../types/loan';
+import type { DefaultQueueEntry } from '../../types/loan';
+import {
+  DefaultPhase,
+  LIQUIDATION_GRACE_PERIOD,
+  getDefaultPhase,
+  scoreAfterDefault,
+  sortDefaultQueue,
+} from './defaults';
+
+const DUE = 1_700_000_000n;
+
+const entry = (loanId: bigint, dueDate: bigint): DefaultQueueEntry => ({
+  loanId,
+  borrower: '0x0000000000000000000000000000000000000001',
+  dueDate,
+  outstandingAmount: 100n * 10n ** 6n,
+  collateralType: CollateralType.USDT,
+  collateralAmount: 150n * 10n ** 6n,
+});
+
+describe('getDefaultPhase', () => {
+  it('follows the due date and the 3-day grace period', () => {
+    expect(getDefaultPhase(DUE, DUE - 1n)).toBe(DefaultPhase.Current);
+    expect(getDefaultPhase(DUE, DUE)).toBe(DefaultPhase.Grace);
+    expect(getDefaultPhase(DUE, DUE + LIQUIDATION_GRACE_PERIOD - 1n)).toBe(DefaultPhase.Grace);
+    // defaultLoan reverts while block.timestamp < dueDate + LIQUIDATION_GRACE_PERIOD
+    expect(getDefaultPhase(DUE, DUE + LIQUIDATION_GRACE_PERIOD)).toBe(DefaultPhase.Defaultable);
+  });
+});
+
+describe('scoreAfterDefault', () => {
+  it('takes 100 points, floored at zero', () => {
+    expect(scoreAfterDefault(500)).toBe(400);
+    expect(scoreAfterDefault(60)).toBe(0);
+  });
+});
+
+describe('sortDefaultQueue', () => {
+  it('puts the earliest due date first, then the lowest loan id', () => {
+    const sorted = sortDefaultQueue([entry(1n, DUE + 10n), entry(3n, DUE), entry(2n, DUE)]);
+
+    expect(sorted.map((e) => e.loanId)).toEqual([2n, 3n, 1n]);
+  });
+});
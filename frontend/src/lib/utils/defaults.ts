@@ -0,0 +1,37 @@
+import type { DefaultQueueEntry } from '../../types/loan';
+
+/**
+ * Client-side mirror of the default rules in contract/src/LoanManager.sol
+ * and contract/src/CreditScore.sol. Times are unix seconds, compared against
+ * block timestamps like the contract does.
+ */
+
+export const LIQUIDATION_GRACE_PERIOD = 3n * 24n * 60n * 60n; // 3 days after the due date
+export const SCORE_DECREASE_PER_DEFAULT = 100; // Credit score points lost per default
+const MIN_SCORE = 0;
+
+// Where an active loan stands against its default deadline
+export const DefaultPhase = {
+  Current: 'current', // Before the due date
+  Grace: 'grace', // Past due, inside the grace period
+  Defaultable: 'defaultable', // defaultLoan no longer reverts with LoanNotDue
+} as const;
+export type DefaultPhase = (typeof DefaultPhase)[keyof typeof DefaultPhase];
+
+/** The first timestamp at which `defaultLoan` accepts a loan due at `dueDate`. */
+export const getDefaultableAt = (dueDate: bigint) => dueDate + LIQUIDATION_GRACE_PERIOD;
+
+export const getDefaultPhase = (dueDate: bigint, now: bigint): DefaultPhase => {
+  if (now < dueDate) return DefaultPhase.Current;
+  if (now < getDefaultableAt(dueDate)) return DefaultPhase.Grace;
+  return DefaultPhase.Defaultable;
+};
+
+/** A borrower's credit score after one more default. */
+export const scoreAfterDefault = (score: number) => Math.max(score - SCORE_DECREASE_PER_DEFAULT, MIN_SCORE);
+
+/** Active loans ordered by when they can be defaulted, longest-overdue first. */
+export const sortDefaultQueue = (entries: DefaultQueueEntry[]): DefaultQueueEntry[] =>
+  [...entries].sort((a, b) =>
+    a.dueDate === b.dueDate ? (a.loanId < b.loanId ? -1 : 1) : a.dueDate < b.dueDate ? -1 : 1
+  );
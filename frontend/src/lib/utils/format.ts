@@ -0,0 +1,47 @@
+import { parseUnits, formatUnits, formatEther } from 'viem';
+import { CollateralType } from '../../types/loan';
+
+/**
+ * Parse a user-entered decimal string into base units.
+ * Returns undefined for empty, malformed or non-positive input instead of throwing.
+ */
+export const parseAmount = (value: string, decimals: number): bigint | undefined => {
+  if (!value || !/^\d*\.?\d*$/.test(value)) return undefined;
+  try {
+    const parsed = parseUnits(value, decimals);
+    return parsed > 0n ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const formatBasisPoints = (bps: number | bigint) => (Number(bps) / 100).toFixed(2);
+
+/** Format a 6-decimal USDT amount for display, e.g. 1234500000n -> "1,234.50". */
+export const formatUsdt = (value: bigint) =>
+  Number(formatUnits(value, 6)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** Format an oracle price with `decimals` decimals as dollars, e.g. 240000000000n, 8 -> "$2,400.00". */
+export const formatPrice = (price: bigint, decimals: number) =>
+  `$${Number(formatUnits(price, decimals)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Format locked collateral in its own units (wei for ETH, 6 decimals for USDT). */
+export const formatCollateral = (value: bigint, collateralType: CollateralType) =>
+  collateralType === CollateralType.ETH
+    ? `${Number(formatEther(value)).toLocaleString(undefined, { maximumFractionDigits: 6 })} ETH`
+    : `${formatUsdt(value)} USDT`;
+
+/** Format a unix timestamp in seconds as a local date. */
+export const formatTimestamp = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleDateString();
+
+/** Format a span of seconds as its two largest units, e.g. 186400n -> "2d 3h". */
+export const formatDuration = (seconds: bigint) => {
+  const total = Number(seconds > 0n ? seconds : 0n);
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
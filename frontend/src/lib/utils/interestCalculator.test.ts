@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { LoanType } from '../../types/loan';
+import {
+  calculateAccruedInterest,
+  calculateBorrowRate,
+  calculateInterest,
+  calculateLenderAPY,
+  calculateUtilization,
+  getLoanTypeRate,
+} from './interestCalculator';
+
+// Expected values are the uint256 results of contract/src/InterestCalculator.sol
+// (integer division truncates), including every exact assertion in
+// contract/test/InterestCalculator.t.sol.
+
+const USDT = 10n ** 6n;
+const DAY = 86400n;
+
+describe('calculateBorrowRate', () => {
+  it.each([
+    [0n, 300n],
+    [1n, 300n],
+    [19n, 300n],
+    [20n, 301n],
+    [5000n, 550n],
+    [6543n, 627n],
+    [7999n, 699n],
+    [8000n, 700n],
+    [8001n, 703n],
+    [8333n, 1699n],
+    [9000n, 3700n],
+    [9999n, 6697n],
+    [10000n, 6700n],
+  ])('utilization %s bps -> %s bps', (utilization, expected) => {
+    expect(calculateBorrowRate(utilization)).toBe(expected);
+  });
+
+  it('reverts above 100% utilization', () => {
+    expect(() => calculateBorrowRate(10001n)).toThrow('InterestCalculator: invalid utilization');
+  });
+});
+
+describe('calculateLenderAPY', () => {
+  it.each([
+    [0n, 500n, 0n],
+    [5000n, 550n, 275n],
+    [6543n, 627n, 410n],
+    [8000n, 700n, 560n],
+    [9000n, 3700n, 3330n],
+    [10000n, 6700n, 6700n],
+    [3333n, 777n, 258n],
+  ])('utilization %s bps at borrow rate %s bps -> %s bps', (utilization, borrowRate, expected) => {
+    expect(calculateLenderAPY(utilization, borrowRate)).toBe(expected);
+  });
+
+  it('reverts above 100% utilization', () => {
+    expect(() => calculateLenderAPY(10001n, 500n)).toThrow('InterestCalculator: invalid utilization');
+  });
+});
+
+describe('getLoanTypeRate', () => {
+  it.each([
+    [LoanType.Personal, 800n],
+    [LoanType.Home, 500n],
+    [LoanType.Business, 1000n],
+    [LoanType.Auto, 600n],
+  ])('loan type %s -> %s bps', (loanType, expected) => {
+    expect(getLoanTypeRate(loanType)).toBe(expected);
+  });
+
+  it('reverts for an unknown loan type', () => {
+    expect(() => getLoanTypeRate(4 as LoanType)).toThrow('InterestCalculator: invalid loan type');
+  });
+});
+
+describe('calculateInterest', () => {
+  it.each([
+    [1000n * USDT, 1000n, 365n, 100n * USDT],
+    [1000n * USDT, 1000n, 182n, 49863013n],
+    [10000n * USDT, 800n, 30n, 65753424n],
+    [100n * USDT, 800n, 7n, 153424n],
+    [123456789n, 600n, 45n, 913242n],
+    [1n, 800n, 365n, 0n],
+    [1_000_000n * USDT, 10000n, 365n, 1_000_000n * USDT],
+  ])('%s at %s bps for %s days -> %s', (principal, rate, durationDays, expected) => {
+    expect(calculateInterest(principal, rate, durationDays)).toBe(expected);
+  });
+
+  it('reverts with zero principal', () => {
+    expect(() => calculateInterest(0n, 500n, 30n)).toThrow('InterestCalculator: zero principal');
+  });
+
+  it('reverts with zero duration', () => {
+    expect(() => calculateInterest(1000n * USDT, 500n, 0n)).toThrow('InterestCalculator: zero duration');
+  });
+
+  it('reverts with a duration over 365 days', () => {
+    expect(() => calculateInterest(1000n * USDT, 500n, 366n)).toThrow('InterestCalculator: duration too long');
+  });
+});
+
+describe('calculateAccruedInterest', () => {
+  it.each([
+    [1000n * USDT, 1000n, 365n * DAY, 100n * USDT],
+    [1000n * USDT, 1000n, DAY, 273972n],
+    [10000n * USDT, 800n, 3600n, 91324n],
+    [5000n * USDT, 500n, 0n, 0n],
+    [250n * USDT, 1000n, 1n, 0n],
+  ])('%s at %s bps after %s seconds -> %s', (principal, rate, timeElapsed, expected) => {
+    expect(calculateAccruedInterest(principal, rate, timeElapsed)).toBe(expected);
+  });
+
+  it('reverts with zero principal', () => {
+    expect(() => calculateAccruedInterest(0n, 500n, DAY)).toThrow('InterestCalculator: zero principal');
+  });
+});
+
+describe('calculateUtilization', () => {
+  it.each([
+    [0n, 0n, 0n],
+    [5000n * USDT, 10000n * USDT, 5000n],
+    [10000n * USDT, 10000n * USDT, 10000n],
+    [15000n * USDT, 10000n * USDT, 10000n],
+    [1n, 3n, 3333n],
+  ])('%s borrowed of %s -> %s bps', (totalBorrowed, totalLiquidity, expected) => {
+    expect(calculateUtilization(totalBorrowed, totalLiquidity)).toBe(expected);
+  });
+});
@@ -0,0 +1,75 @@
+import { LoanType } from '../../types/loan';
+
+/**
+ * Client-side mirror of contract/src/InterestCalculator.sol.
+ *
+ * All values use the contract's units (basis points, 6-decimal USDT, seconds)
+ * and bigint integer division, so results match the on-chain view calls
+ * exactly and quotes can be shown without an RPC round trip.
+ */
+
+export const BASIS_POINTS = 10000n;
+export const BASE_RATE = 300n; // 3%
+export const OPTIMAL_UTILIZATION = 8000n; // 80%
+export const SLOPE_1 = 400n; // 4% up to optimal
+export const SLOPE_2 = 6000n; // 60% above optimal
+
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+const LOAN_TYPE_RATES: Record<LoanType, bigint> = {
+  [LoanType.Personal]: 800n, // 8%
+  [LoanType.Home]: 500n, // 5%
+  [LoanType.Business]: 1000n, // 10%
+  [LoanType.Auto]: 600n, // 6%
+};
+
+/** Annual borrow rate (bps) on the kinked utilization curve. */
+export const calculateBorrowRate = (utilization: bigint): bigint => {
+  if (utilization > BASIS_POINTS) throw new Error('InterestCalculator: invalid utilization');
+
+  if (utilization <= OPTIMAL_UTILIZATION) {
+    return BASE_RATE + (utilization * SLOPE_1) / OPTIMAL_UTILIZATION;
+  }
+
+  const excessUtilization = utilization - OPTIMAL_UTILIZATION;
+  const maxExcess = BASIS_POINTS - OPTIMAL_UTILIZATION;
+  return BASE_RATE + SLOPE_1 + (excessUtilization * SLOPE_2) / maxExcess;
+};
+
+/** Lender APY (bps): the borrow rate scaled by the share of the pool that is lent out. */
+export const calculateLenderAPY = (utilization: bigint, borrowRate: bigint): bigint => {
+  if (utilization > BASIS_POINTS) throw new Error('InterestCalculator: invalid utilization');
+
+  return (borrowRate * utilization) / BASIS_POINTS;
+};
+
+/** Fixed annual rate (bps) for a loan type. */
+export const getLoanTypeRate = (loanType: LoanType): bigint => {
+  const rate = LOAN_TYPE_RATES[loanType];
+  if (rate === undefined) throw new Error('InterestCalculator: invalid loan type');
+  return rate;
+};
+
+/** Total simple interest (6 decimals) over a loan term of whole days. */
+export const calculateInterest = (principal: bigint, rate: bigint, durationDays: bigint): bigint => {
+  if (principal <= 0n) throw new Error('InterestCalculator: zero principal');
+  if (durationDays <= 0n) throw new Error('InterestCalculator: zero duration');
+  if (durationDays > 365n) throw new Error('InterestCalculator: duration too long');
+
+  return (principal * rate * durationDays) / (BASIS_POINTS * 365n);
+};
+
+/** Interest (6 decimals) accrued after `timeElapsed` seconds. */
+export const calculateAccruedInterest = (principal: bigint, rate: bigint, timeElapsed: bigint): bigint => {
+  if (principal <= 0n) throw new Error('InterestCalculator: zero principal');
+
+  return (principal * rate * timeElapsed) / (BASIS_POINTS * SECONDS_PER_YEAR);
+};
+
+/** Pool utilization (bps), capped at 100%. */
+export const calculateUtilization = (totalBorrowed: bigint, totalLiquidity: bigint): bigint => {
+  if (totalLiquidity === 0n) return 0n;
+
+  const utilization = (totalBorrowed * BASIS_POINTS) / totalLiquidity;
+  return utilization > BASIS_POINTS ? BASIS_POINTS : utilization;
+};
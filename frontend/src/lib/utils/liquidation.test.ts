@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { CollateralType } from '../../types/loan';
+import type { LiquidationPosition } from '../../types/loan';
+import {
+  LIQUIDATION_THRESHOLD,
+  applyPriceShock,
+  calculateEthCollateralValue,
+  calculateHealthRatio,
+  calculateLiquidationPrice,
+  calculateLiquidatorReward,
+  rankLiquidatable,
+} from './liquidation';
+
+const position = (loanId: bigint, healthRatio?: number): LiquidationPosition => ({
+  loanId,
+  borrower: '0x0000000000000000000000000000000000000001',
+  principal: 1000n * 10n ** 6n,
+  collateralType: CollateralType.ETH,
+  collateralAmount: 10n ** 18n,
+  healthRatio,
+  collateralValue: healthRatio !== undefined ? BigInt(healthRatio) * 10n ** 7n : undefined,
+  canLiquidate: healthRatio !== undefined && healthRatio < LIQUIDATION_THRESHOLD,
+  reward: calculateLiquidatorReward(10n ** 18n),
+});
+
+describe('calculateLiquidatorReward', () => {
+  it('pays 5% of the collateral, truncated', () => {
+    expect(calculateLiquidatorReward(10n ** 18n)).toBe(5n * 10n ** 16n);
+    expect(calculateLiquidatorReward(1_000_000n)).toBe(50_000n);
+    expect(calculateLiquidatorReward(19n)).toBe(0n);
+  });
+});
+
+describe('rankLiquidatable', () => {
+  it('keeps positions below 120% health, least healthy first', () => {
+    const ranked = rankLiquidatable([position(1n, 150), position(2n, 119), position(3n, 80), position(4n, 120)]);
+
+    expect(ranked.map((p) => p.loanId)).toEqual([3n, 2n]);
+  });
+
+  it('breaks ties by loan id and skips unreadable health', () => {
+    const ranked = rankLiquidatable([position(7n, 100), position(5n, 100), position(6n)]);
+
+    expect(ranked.map((p) => p.loanId)).toEqual([5n, 7n]);
+  });
+
+  it('trusts canLiquidate over the health ratio', () => {
+    // Collateral released between the two reads
+    const released = { ...position(8n, 90), canLiquidate: false };
+
+    expect(rankLiquidatable([released, position(9n, 110)]).map((p) => p.loanId)).toEqual([9n]);
+  });
+});
+
+// 1 ETH against a 2,000 USDT loan, priced by an 8-decimal feed
+const ONE_ETH = 10n ** 18n;
+const LOAN = 2000n * 10n ** 6n;
+const PRICE_DECIMALS = 8;
+const usd = (dollars: bigint) => dollars * 10n ** BigInt(PRICE_DECIMALS);
+
+describe('calculateEthCollateralValue / calculateHealthRatio', () => {
+  it('matches the contract at $3,000 ETH', () => {
+    const value = calculateEthCollateralValue(ONE_ETH, usd(3000n), PRICE_DECIMALS);
+
+    expect(value).toBe(3000n * 10n ** 6n);
+    expect(calculateHealthRatio(value, LOAN)).toBe(150);
+  });
+});
+
+describe('calculateLiquidationPrice', () => {
+  const healthAt = (price: bigint) =>
+    calculateHealthRatio(calculateEthCollateralValue(ONE_ETH, price, PRICE_DECIMALS), LOAN);
+
+  it('is 120% of the principal per unit of collateral', () => {
+    expect(calculateLiquidationPrice(ONE_ETH, LOAN, PRICE_DECIMALS)).toBe(usd(2400n));
+  });
+
+  it('is the exact boundary under integer truncation', () => {
+    const collateral = 777_777_777_777_777_777n;
+    const loan = 1_234_567_891n;
+    const price = calculateLiquidationPrice(collateral, loan, PRICE_DECIMALS);
+    const health = (p: bigint) =>
+      calculateHealthRatio(calculateEthCollateralValue(collateral, p, PRICE_DECIMALS), loan);
+
+    expect(health(price)).toBeGreaterThanOrEqual(LIQUIDATION_THRESHOLD);
+    expect(health(price - 1n)).toBeLessThan(LIQUIDATION_THRESHOLD);
+    expect(healthAt(usd(2400n) - 1n)).toBeLessThan(LIQUIDATION_THRESHOLD);
+  });
+});
+
+describe('applyPriceShock', () => {
+  it('drops the price by a whole percentage', () => {
+    expect(applyPriceShock(usd(3000n), 20)).toBe(usd(2400n));
+    expect(applyPriceShock(usd(3000n), 80)).toBe(usd(600n));
+  });
+});
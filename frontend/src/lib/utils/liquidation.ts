@@ -0,0 +1,56 @@
+import type { LiquidationPosition } from '../../types/loan';
+
+/**
+ * Client-side mirror of the liquidation rules in contract/src/CollateralManager.sol.
+ *
+ * Health ratios are collateral value as a whole-number percentage of the
+ * principal, truncated like the contract's integer division.
+ */
+
+export const LIQUIDATION_THRESHOLD = 120; // Liquidatable below 120% health
+export const LIQUIDATOR_REWARD = 5n; // 5% of the seized collateral
+const PERCENTAGE_BASE = 100n;
+const USDT_DECIMALS = 6;
+
+// Divisor taking wei x oracle price down to 6-decimal USDT
+const ethValueScale = (priceDecimals: number) => 10n ** BigInt(18 + priceDecimals - USDT_DECIMALS);
+
+/** USDT value (6 decimals) of ETH collateral at an oracle price, as getCollateralValue computes it. */
+export const calculateEthCollateralValue = (collateralWei: bigint, price: bigint, priceDecimals: number): bigint =>
+  (collateralWei * price) / ethValueScale(priceDecimals);
+
+/** Collateral value as a whole percentage of the principal, as getHealthRatio computes it. */
+export const calculateHealthRatio = (collateralValue: bigint, loanAmount: bigint): number =>
+  Number((collateralValue * PERCENTAGE_BASE) / loanAmount);
+
+/**
+ * The lowest oracle price (in the oracle's decimals) at which an ETH-backed
+ * loan is still safe; any price below it makes the loan liquidatable.
+ */
+export const calculateLiquidationPrice = (collateralWei: bigint, loanAmount: bigint, priceDecimals: number): bigint => {
+  // Health stays >= the threshold while the truncated collateral value is at least this much
+  const threshold = BigInt(LIQUIDATION_THRESHOLD);
+  const minValue = (loanAmount * threshold + PERCENTAGE_BASE - 1n) / PERCENTAGE_BASE;
+  return (minValue * ethValueScale(priceDecimals) + collateralWei - 1n) / collateralWei;
+};
+
+/** An oracle price after a drop of `shockPercent` (0-100). */
+export const applyPriceShock = (price: bigint, shockPercent: number): bigint =>
+  (price * (PERCENTAGE_BASE - BigInt(shockPercent))) / PERCENTAGE_BASE;
+
+/** Collateral (in its own units) paid to whoever liquidates a position. */
+export const calculateLiquidatorReward = (collateralAmount: bigint): bigint =>
+  (collateralAmount * LIQUIDATOR_REWARD) / PERCENTAGE_BASE;
+
+/**
+ * Positions `canLiquidate` accepts, least healthy first. The contract refuses
+ * loans whose health can't be read (e.g. a stale oracle price), so those are
+ * never ranked.
+ */
+export const rankLiquidatable = (positions: LiquidationPosition[]): LiquidationPosition[] =>
+  positions
+    .filter(
+      (position): position is LiquidationPosition & { healthRatio: number } =>
+        position.canLiquidate && position.healthRatio !== undefined
+    )
+    .sort((a, b) => a.healthRatio - b.healthRatio || (a.loanId < b.loanId ? -1 : 1));
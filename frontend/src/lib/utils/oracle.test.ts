@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { PRICE_STALENESS_THRESHOLD, PriceStatus, getPriceStatus } from './oracle';
+
+const UPDATED = 1_700_000_000n;
+const PRICE = 3000n * 10n ** 8n;
+
+describe('getPriceStatus', () => {
+  it('accepts prices up to an hour old', () => {
+    expect(getPriceStatus(PRICE, UPDATED, UPDATED)).toBe(PriceStatus.Fresh);
+    expect(getPriceStatus(PRICE, UPDATED, UPDATED + PRICE_STALENESS_THRESHOLD)).toBe(PriceStatus.Fresh);
+  });
+
+  it('flags prices older than the threshold as stale', () => {
+    expect(getPriceStatus(PRICE, UPDATED, UPDATED + PRICE_STALENESS_THRESHOLD + 1n)).toBe(PriceStatus.Stale);
+  });
+
+  it('flags non-positive prices, after the staleness check', () => {
+    expect(getPriceStatus(0n, UPDATED, UPDATED)).toBe(PriceStatus.Invalid);
+    expect(getPriceStatus(-1n, UPDATED, UPDATED)).toBe(PriceStatus.Invalid);
+    expect(getPriceStatus(0n, UPDATED, UPDATED + PRICE_STALENESS_THRESHOLD + 1n)).toBe(PriceStatus.Stale);
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Client-side mirror of CollateralManager's price checks. ETH collateral can
+ * only be valued (and so borrowed against or liquidated) while the feed is
+ * fresh and positive; otherwise getHealthRatio and getCollateralValue revert.
+ */
+
+export const PRICE_STALENESS_THRESHOLD = 60n * 60n; // 1 hour, in seconds
+
+export const PriceStatus = {
+  Fresh: 'fresh',
+  Stale: 'stale', // Reverts with StalePriceData
+  Invalid: 'invalid', // Non-positive price, reverts with InvalidPriceOracle
+} as const;
+export type PriceStatus = (typeof PriceStatus)[keyof typeof PriceStatus];
+
+/** Classify a feed reading at block time `now`, checking staleness first like the contract. */
+export const getPriceStatus = (price: bigint, updatedAt: bigint, now: bigint): PriceStatus => {
+  if (now - updatedAt > PRICE_STALENESS_THRESHOLD) return PriceStatus.Stale;
+  if (price <= 0n) return PriceStatus.Invalid;
+  return PriceStatus.Fresh;
+};
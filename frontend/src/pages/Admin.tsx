@@ -0,0 +1,162 @@
+import { AlertCircle, AlertTriangle, CheckCircle, Network } from 'lucide-react';
+import { Card } from '../components/ui';
+import { useAdmin } from '../hooks/useAdmin';
+import { useContractAddresses } from '../hooks/useContract';
+import { CONTRACT_LABELS, OWNABLE_CONTRACTS, getOwningContract, isPausable } from '../lib/contracts/wiring';
+import type { OwnableContract } from '../lib/contracts/wiring';
+import { AdminAction } from '../types/admin';
+import { ContractStatusCard } from '../features/admin/ContractStatusCard';
+import { AddressActionForm } from '../features/admin/AddressActionForm';
+import { FundsPanel } from '../features/admin/FundsPanel';
+
+export const Admin = () => {
+  const addresses = useContractAddresses();
+  const admin = useAdmin();
+
+  const owns = (contract: OwnableContract) => admin.ownedContracts.includes(contract);
+  const linkOf = (contract: OwnableContract, getter: string) =>
+    admin.wiring.find((link) => link.contract === contract && link.getter === getter)?.actual;
+  const ownedBy = (contract: OwnableContract) => getOwningContract(admin.owners[contract], addresses);
+  const oracleOwner = ownedBy('collateralManager');
+  const pendingAction = admin.pending?.action;
+  const miswired = admin.wiring.filter((link) => link.isCorrect === false);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">Admin</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Owner-only protocol operations. Every action is simulated and previewed before your wallet opens.
+        </p>
+      </div>
+
+      {/* Warning Banner */}
+      <Card variant="standard" className="border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-800 dark:text-amber-200">
+            These actions affect every user. Pausing blocks deposits, withdrawals, borrowing and repayments on that
+            contract, and pointing a contract at the wrong address can lock funds until it is corrected.
+          </p>
+        </div>
+      </Card>
+
+      {miswired.length > 0 && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+          <AlertCircle className="h-5 w-5 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-amber-900 dark:text-amber-100">
+            {miswired.length} {miswired.length === 1 ? 'link differs' : 'links differ'} from the deployment registry for
+            this network.
+          </p>
+        </div>
+      )}
+
+      {admin.isActionSuccess && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+          <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
+          <p className="text-sm text-green-900 dark:text-green-100">Transaction confirmed.</p>
+        </div>
+      )}
+
+      {admin.isActionError && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
+          <p className="text-sm text-red-900 dark:text-red-100">
+            {admin.actionError ?? 'Transaction failed. Please try again.'}
+          </p>
+        </div>
+      )}
+
+      {/* Contracts */}
+      {admin.isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {OWNABLE_CONTRACTS.map((contract) => (
+            <div key={contract} className="h-48 animate-pulse rounded-2xl bg-gray-200 dark:bg-gray-800"></div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {OWNABLE_CONTRACTS.map((contract) => (
+            <ContractStatusCard
+              key={contract}
+              contract={contract}
+              address={addresses[contract]}
+              owner={admin.owners[contract]}
+              isOwned={owns(contract)}
+              ownedBy={ownedBy(contract)}
+              paused={isPausable(contract) ? admin.paused[contract] : undefined}
+              wiring={admin.wiring.filter((link) => link.contract === contract)}
+              onSetPaused={isPausable(contract) ? (pause) => admin.setPaused(contract, pause) : undefined}
+              isPausePending={
+                !!admin.pending?.contract &&
+                admin.pending.contract === contract &&
+                (pendingAction === AdminAction.Pause || pendingAction === AdminAction.Unpause)
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Wiring */}
+        <Card variant="elevated" title="Wiring" icon={Network}>
+          <div className="space-y-6">
+            <AddressActionForm
+              title="Price Oracle"
+              description="CollateralManager.updatePriceOracle — the ETH/USD feed used to value ETH collateral"
+              current={linkOf('collateralManager', 'priceOracle')}
+              submitLabel="Update"
+              onSubmit={admin.updatePriceOracle}
+              disabled={!owns('collateralManager') || !!pendingAction}
+              unavailableReason={
+                oracleOwner
+                  ? `CollateralManager is owned by the ${CONTRACT_LABELS[oracleOwner]} contract, which can't forward updatePriceOracle, so no wallet can change the oracle.`
+                  : undefined
+              }
+              isPending={pendingAction === AdminAction.UpdatePriceOracle}
+            />
+            <AddressActionForm
+              title="LendingPool Loan Manager"
+              description="LendingPool.setLoanManager — the only contract allowed to borrow from the pool"
+              current={linkOf('lendingPool', 'loanManager')}
+              submitLabel="Set"
+              onSubmit={admin.setPoolLoanManager}
+              disabled={!owns('lendingPool') || !!pendingAction}
+              isPending={pendingAction === AdminAction.SetPoolLoanManager}
+            />
+            <AddressActionForm
+              title="CreditScore Loan Manager"
+              description="CreditScore.setLoanManager — the only contract allowed to record loans and defaults"
+              current={linkOf('creditScore', 'loanManager')}
+              submitLabel="Set"
+              onSubmit={admin.setScoreLoanManager}
+              disabled={!owns('creditScore') || !!pendingAction}
+              isPending={pendingAction === AdminAction.SetScoreLoanManager}
+            />
+            <AddressActionForm
+              title="Protocol Treasury"
+              description="LoanManager.updateProtocolTreasury — where withdrawn protocol fees are sent"
+              current={admin.balances.treasury}
+              submitLabel="Update"
+              onSubmit={admin.updateProtocolTreasury}
+              disabled={!owns('loanManager') || !!pendingAction}
+              isPending={pendingAction === AdminAction.UpdateProtocolTreasury}
+            />
+          </div>
+        </Card>
+
+        <FundsPanel
+          balances={admin.balances}
+          onWithdrawFees={admin.withdrawProtocolFees}
+          onEmergencyWithdraw={admin.emergencyWithdraw}
+          onMint={admin.mint}
+          canWithdrawFees={owns('loanManager')}
+          canWithdrawFaucet={owns('usdtFaucet')}
+          canMint={owns('mockUSDT')}
+          pendingAction={pendingAction}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,185 @@
+import { useState } from 'react';
+import { Info, ArrowLeft, ArrowRight } from 'lucide-react';
+import { Card, Button } from '../components/ui';
+import { useBorrow } from '../hooks/useBorrow';
+import { BorrowSteps } from '../features/borrowing/BorrowSteps';
+import { LoanTypeSelector } from '../features/borrowing/LoanTypeSelector';
+import { LoanTermsForm } from '../features/borrowing/LoanTermsForm';
+import { CollateralForm } from '../features/borrowing/CollateralForm';
+import { PriceOracleStatus } from '../components/oracle/PriceOracleStatus';
+import { LoanReview } from '../features/borrowing/LoanReview';
+import { LoanType, CollateralType } from '../types/loan';
+
+const STEPS = ['Loan Type', 'Terms', 'Collateral', 'Review'];
+
 export const Borrow = () => {
+  const [step, setStep] = useState(0);
+  const [loanType, setLoanType] = useState<LoanType>(LoanType.Personal);
+  const [amount, setAmount] = useState('');
+  const [durationDays, setDurationDays] = useState('30');
+  const [collateralType, setCollateralType] = useState<CollateralType>(CollateralType.ETH);
+  const [collateralAmount, setCollateralAmount] = useState('');
+
+  const borrow = useBorrow({ loanType, amount, durationDays, collateralType, collateralAmount });
+
+  // Step validation
+  const getAmountError = () => {
+    if (!amount) return undefined;
+    if (!(Number(amount) > 0)) return 'Please enter a valid amount';
+    if (Number(amount) < Number(borrow.minLoanAmount)) {
+      return `Minimum loan amount is ${Number(borrow.minLoanAmount).toLocaleString()} USDT`;
+    }
+    if (Number(amount) > Number(borrow.availableLiquidity)) return 'Insufficient pool liquidity';
+    if (borrow.qualifies === false) return 'Amount exceeds the limit for your credit score';
+    return undefined;
+  };
+
+  const getDurationError = () => {
+    const days = Number(durationDays);
+    if (!Number.isInteger(days) || days < borrow.minDurationDays || days > borrow.maxDurationDays) {
+      return `Duration must be between ${borrow.minDurationDays} and ${borrow.maxDurationDays} days`;
+    }
+    return undefined;
+  };
+
+  const getCollateralError = () => {
+    if (!collateralAmount) return undefined;
+    if (!(Number(collateralAmount) > 0)) return 'Please enter a valid amount';
+    const isEth = collateralType === CollateralType.ETH;
+    if (isEth && !borrow.isEthPriceUsable) return 'ETH/USD price is unavailable — use USDT collateral or try again later';
+    const minimum = isEth ? borrow.requiredEth : borrow.requiredCollateralUsd;
+    if (minimum !== undefined && Number(collateralAmount) < Number(minimum)) {
+      return 'Collateral is below the required amount';
+    }
+    if (Number(collateralAmount) > Number(isEth ? borrow.ethBalance : borrow.usdtBalance)) {
+      return `Insufficient ${isEth ? 'ETH' : 'USDT'} balance`;
+    }
+    return undefined;
+  };
+
+  const amountError = getAmountError();
+  const durationError = getDurationError();
+  const collateralError = getCollateralError();
+
+  const canContinue = [
+    true,
+    !!amount && !amountError && !durationError,
+    !!collateralAmount && !collateralError,
+    false,
+  ][step];
+
+  const handleCollateralTypeChange = (type: CollateralType) => {
+    setCollateralType(type);
+    setCollateralAmount('');
+  };
+
+  const handleBack = () => {
+    borrow.resetCreate();
+    setStep((s) => s - 1);
+  };
+
   return (
-    <div className="p-8">
-      <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100">Borrow</h1>
-      <p className="mt-4 text-gray-600 dark:text-gray-400">
-        Borrow USDT against your collateral
-      </p>
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">Borrow USDT</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Borrow USDT against ETH or USDT collateral at a fixed rate
+          </p>
+        </div>
+      </div>
+
+      {/* Info Banner */}
+      <Card variant="standard" className="border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20">
+        <div className="flex items-start gap-3">
+          <Info className="h-5 w-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm text-blue-900 dark:text-blue-100 font-medium mb-1">
+              Your credit score sets your collateral ratio
+            </p>
+            <p className="text-sm text-blue-800 dark:text-blue-200">
+              Borrowers with higher credit scores lock less collateral. Repay on time to improve your
+              score and unlock better terms on future loans.
+            </p>
+          </div>
+        </div>
+      </Card>
+
+      <BorrowSteps steps={STEPS} currentStep={step} />
+
+      <div className="max-w-3xl space-y-6">
+        {step === 0 && <LoanTypeSelector value={loanType} onChange={setLoanType} />}
+
+        {step === 1 && (
+          <LoanTermsForm
+            amount={amount}
+            durationDays={durationDays}
+            onAmountChange={setAmount}
+            onDurationChange={setDurationDays}
+            minLoanAmount={borrow.minLoanAmount}
+            minDurationDays={borrow.minDurationDays}
+            maxDurationDays={borrow.maxDurationDays}
+            availableLiquidity={borrow.availableLiquidity}
+            interestRate={borrow.interestRate}
+            amountError={amountError}
+            durationError={durationError}
+          />
+        )}
+
+        {step === 2 && collateralType === CollateralType.ETH && <PriceOracleStatus />}
+
+        {step === 2 && (
+          <CollateralForm
+            collateralType={collateralType}
+            collateralAmount={collateralAmount}
+            onCollateralTypeChange={handleCollateralTypeChange}
+            onCollateralAmountChange={setCollateralAmount}
+            requiredCollateralRatio={borrow.requiredCollateralRatio}
+            requiredCollateralUsd={borrow.requiredCollateralUsd}
+            requiredEth={borrow.requiredEth}
+            ethPrice={borrow.ethPrice}
+            ethPriceUnavailable={!borrow.isEthPriceUsable}
+            ethBalance={borrow.ethBalance}
+            usdtBalance={borrow.usdtBalance}
+            error={collateralError}
+          />
+        )}
+
+        {step === 3 && (
+          <LoanReview
+            loanType={loanType}
+            amount={amount}
+            durationDays={durationDays}
+            collateralType={collateralType}
+            collateralAmount={collateralAmount}
+            interestRate={borrow.interestRate}
+            totalInterest={borrow.totalInterest}
+            needsApproval={borrow.needsApproval}
+            onApprove={borrow.approve}
+            onSubmit={borrow.createLoan}
+            isApprovePending={borrow.isApprovePending}
+            isCreatePending={borrow.isCreatePending}
+            isCreateSuccess={borrow.isCreateSuccess}
+            isCreateError={borrow.isCreateError}
+            createError={borrow.createError}
+          />
+        )}
+
+        {/* Navigation */}
+        <div className="flex justify-between">
+          <Button variant="ghost" onClick={handleBack} disabled={step === 0 || borrow.isCreatePending}>
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          {step < STEPS.length - 1 && (
+            <Button variant="primary" onClick={() => setStep((s) => s + 1)} disabled={!canContinue}>
+              Continue
+              <ArrowRight className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
     </div>
   );
 };
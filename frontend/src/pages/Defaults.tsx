@@ -0,0 +1,91 @@
+import { AlertCircle, CheckCircle, Info } from 'lucide-react';
+import { Card } from '../components/ui';
+import { useDefaultQueue } from '../hooks/useDefaultQueue';
+import { DefaultPhase, getDefaultPhase, SCORE_DECREASE_PER_DEFAULT } from '../lib/utils/defaults';
+import { DefaultQueueTable } from '../features/defaults/DefaultQueueTable';
+
+export const Defaults = () => {
+  const queue = useDefaultQueue();
+  const { now } = queue;
+
+  const countIn = (phase: DefaultPhase) =>
+    now === undefined ? 0 : queue.entries.filter((entry) => getDefaultPhase(entry.dueDate, now) === phase).length;
+
+  const stats = [
+    { label: 'Active Loans', value: queue.entries.length },
+    { label: 'In Grace Period', value: countIn(DefaultPhase.Grace) },
+    { label: 'Defaultable', value: countIn(DefaultPhase.Defaultable) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">Default Queue</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Track overdue loans and default the ones past their grace period
+        </p>
+      </div>
+
+      {/* What defaulting does */}
+      <Card variant="standard" className="border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20">
+        <div className="flex items-start gap-3">
+          <Info className="h-5 w-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
+          <div className="space-y-2 text-sm text-blue-800 dark:text-blue-200">
+            <p>
+              Borrowers get a 3-day grace period after the due date. Once it ends, anyone can mark the loan as
+              defaulted.
+            </p>
+            <p>
+              <span className="font-medium text-blue-900 dark:text-blue-100">Credit score:</span> the borrower
+              loses {SCORE_DECREASE_PER_DEFAULT} points (never below 0) and the default stays on their record. A
+              lower score can drop them into a tier that needs more collateral for future loans.
+            </p>
+            <p>
+              <span className="font-medium text-blue-900 dark:text-blue-100">Collateral:</span> it is seized
+              through the collateral manager's liquidation and sent to the protocol instead of back to the
+              borrower. Because of that, a default only goes through once the loan's health is also below 120%;
+              the preview will tell you if it would fail.
+            </p>
+          </div>
+        </div>
+      </Card>
+
+      {/* Stats */}
+      <div className="grid grid-cols-3 gap-4">
+        {stats.map((stat) => (
+          <Card key={stat.label} variant="stat" title={stat.label}>
+            {queue.isLoading ? '—' : stat.value}
+          </Card>
+        ))}
+      </div>
+
+      {queue.isDefaultSuccess && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+          <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
+          <p className="text-sm text-green-900 dark:text-green-100">
+            Loan #{queue.defaultingId?.toString()} has been marked as defaulted.
+          </p>
+        </div>
+      )}
+
+      {queue.isDefaultError && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
+          <p className="text-sm text-red-900 dark:text-red-100">
+            {queue.defaultError ?? 'Default failed. Please try again.'}
+          </p>
+        </div>
+      )}
+
+      <DefaultQueueTable
+        entries={queue.entries}
+        now={now}
+        isLoading={queue.isLoading}
+        onMarkDefault={queue.markDefault}
+        defaultingId={queue.defaultingId}
+        isDefaultPending={queue.isDefaultPending}
+      />
+    </div>
+  );
+};
@@ -1,38 +1,17 @@
-import { useAccount } from 'wagmi';
 import { Wallet, Info, ExternalLink } from 'lucide-react';
 import { Card } from '../components/ui';
 import { useFaucet } from '../hooks/useFaucet';
+import { useTransactions } from '../hooks/useTransactions';
 import { ClaimCard } from '../features/faucet/ClaimCard';
 import { ClaimTimer } from '../features/faucet/ClaimTimer';
 import { FaucetStats } from '../features/faucet/FaucetStats';
 import { ClaimHistory } from '../features/faucet/ClaimHistory';
 
 export const Faucet = () => {
-  const { isConnected } = useAccount();
   const faucetData = useFaucet();
+  const { events } = useTransactions();
 
-  // Wallet connection guard
-  if (!isConnected) {
-    return (
-      <div className="flex items-center justify-center min-h-[60vh]">
-        <Card variant="elevated" className="max-w-md w-full text-center">
-          <div className="py-12 space-y-6">
-            <div className="mx-auto flex h-20 w-20 items-center justify-center rounded-full bg-gradient-to-br from-primary-100 to-primary-200 dark:from-primary-900/40 dark:to-primary-800/40">
-              <Wallet className="h-10 w-10 text-primary-600 dark:text-primary-400" />
-            </div>
-            <div>
-              <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
-                Connect Your Wallet
-              </h2>
-              <p className="text-gray-600 dark:text-gray-400">
-                Connect your wallet to claim test USDT and start using OnLoan
-              </p>
-            </div>
-          </div>
-        </Card>
-      </div>
-    );
-  }
+  const claims = events.filter((event) => event.eventName === 'TokensClaimed');
 
   return (
     <div className="space-y-6">
@@ -98,6 +77,7 @@ export const Faucet = () => {
             isPending={faucetData.isPending}
             isSuccess={faucetData.isSuccess}
             isError={faucetData.isError}
+            error={faucetData.error}
           />
         </div>
 
@@ -114,7 +94,7 @@ export const Faucet = () => {
       <FaucetStats />
 
       {/* Claim History */}
-      <ClaimHistory />
+      <ClaimHistory claims={claims} />
 
       {/* Additional Info */}
       <Card variant="standard" className="border-gray-200 dark:border-gray-700">
@@ -1,8 +1,10 @@
 import { useState } from 'react';
-import { useAccount } from 'wagmi';
-import { Wallet, Info } from 'lucide-react';
+import { Info } from 'lucide-react';
 import { Card } from '../components/ui';
+import { ReadOnlyNotice } from '../components/wallet/ReadOnlyNotice';
+import { WatchAddressBar } from '../components/wallet/WatchAddressBar';
 import { useLendingPool } from '../hooks/useLendingPool';
+import { useTransactions } from '../hooks/useTransactions';
 import { DepositForm } from '../features/lending/DepositForm';
 import { WithdrawForm } from '../features/lending/WithdrawForm';
 import { LenderStats } from '../features/lending/LenderStats';
@@ -11,32 +13,11 @@ import { EarningsChart } from '../features/lending/EarningsChart';
 type Tab = 'deposit' | 'withdraw';
 
 export const Lend = () => {
-  const { isConnected } = useAccount();
   const [activeTab, setActiveTab] = useState<Tab>('deposit');
   const poolData = useLendingPool();
+  const { events } = useTransactions();
 
-  // Wallet connection guard
-  if (!isConnected) {
-    return (
-      <div className="flex items-center justify-center min-h-[60vh]">
-        <Card variant="elevated" className="max-w-md w-full text-center">
-          <div className="py-12 space-y-6">
-            <div className="mx-auto flex h-20 w-20 items-center justify-center rounded-full bg-gradient-to-br from-primary-100 to-primary-200 dark:from-primary-900/40 dark:to-primary-800/40">
-              <Wallet className="h-10 w-10 text-primary-600 dark:text-primary-400" />
-            </div>
-            <div>
-              <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
-                Connect Your Wallet
-              </h2>
-              <p className="text-gray-600 dark:text-gray-400">
-                Connect your wallet to start lending and earning interest
-              </p>
-            </div>
-          </div>
-        </Card>
-      </div>
-    );
-  }
+  const interestClaims = events.filter((event) => event.eventName === 'InterestClaimed');
 
   return (
     <div className="space-y-6">
@@ -52,6 +33,8 @@ export const Lend = () => {
         </div>
       </div>
 
+      <WatchAddressBar />
+
       {/* Info Banner */}
       <Card variant="standard" className="border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20">
         <div className="flex items-start gap-3">
@@ -81,62 +64,81 @@ export const Lend = () => {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column - Forms */}
         <div className="lg:col-span-2 space-y-6">
-          {/* Tabs */}
-          <div className="flex gap-2 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl">
-            <button
-              onClick={() => setActiveTab('deposit')}
-              className={`flex-1 py-2.5 px-4 rounded-lg font-medium text-sm transition-colors ${
-                activeTab === 'deposit'
-                  ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
-                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
-              }`}
-            >
-              Deposit
-            </button>
-            <button
-              onClick={() => setActiveTab('withdraw')}
-              className={`flex-1 py-2.5 px-4 rounded-lg font-medium text-sm transition-colors ${
-                activeTab === 'withdraw'
-                  ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
-                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
-              }`}
-            >
-              Withdraw
-            </button>
-          </div>
-
-          {/* Tab Content */}
-          {activeTab === 'deposit' ? (
-            <DepositForm
-              usdtBalance={poolData.usdtBalance}
-              allowance={poolData.allowance}
-              currentAPY={poolData.currentAPY}
-              onApprove={poolData.approve}
-              onDeposit={poolData.deposit}
-              isApprovePending={poolData.isApprovePending}
-              isApproveSuccess={poolData.isApproveSuccess}
-              isDepositPending={poolData.isDepositPending}
-              isDepositSuccess={poolData.isDepositSuccess}
-              isDepositError={poolData.isDepositError}
-              refetchAllowance={poolData.refetchAllowance}
-            />
+          {poolData.isReadOnly ? (
+            <ReadOnlyNotice action="Deposits and withdrawals" />
           ) : (
-            <WithdrawForm
-              totalDeposited={poolData.totalDeposited}
-              availableToWithdraw={poolData.availableToWithdraw}
-              earnedInterest={poolData.earnedInterest}
-              totalPoolLiquidity={poolData.totalPoolLiquidity}
-              onWithdraw={poolData.withdraw}
-              isWithdrawPending={poolData.isWithdrawPending}
-              isWithdrawSuccess={poolData.isWithdrawSuccess}
-              isWithdrawError={poolData.isWithdrawError}
-            />
+            <>
+              {/* Tabs */}
+              <div className="flex gap-2 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl">
+                <button
+                  onClick={() => setActiveTab('deposit')}
+                  className={`flex-1 py-2.5 px-4 rounded-lg font-medium text-sm transition-colors ${
+                    activeTab === 'deposit'
+                      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+                  }`}
+                >
+                  Deposit
+                </button>
+                <button
+                  onClick={() => setActiveTab('withdraw')}
+                  className={`flex-1 py-2.5 px-4 rounded-lg font-medium text-sm transition-colors ${
+                    activeTab === 'withdraw'
+                      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+                  }`}
+                >
+                  Withdraw
+                </button>
+              </div>
+
+              {/* Tab Content */}
+              {activeTab === 'deposit' ? (
+                <DepositForm
+                  usdtBalance={poolData.usdtBalance}
+                  allowance={poolData.allowance}
+                  currentAPY={poolData.currentAPY}
+                  onApprove={poolData.approve}
+                  onDeposit={poolData.deposit}
+                  isApprovePending={poolData.isApprovePending}
+                  isApproveSuccess={poolData.isApproveSuccess}
+                  approveError={poolData.approveError}
+                  isDepositPending={poolData.isDepositPending}
+                  isDepositSuccess={poolData.isDepositSuccess}
+                  isDepositError={poolData.isDepositError}
+                  depositError={poolData.depositError}
+                />
+              ) : (
+                <WithdrawForm
+                  totalDeposited={poolData.totalDeposited}
+                  availableToWithdraw={poolData.availableToWithdraw}
+                  earnedInterest={poolData.earnedInterest}
+                  totalPoolLiquidity={poolData.totalPoolLiquidity}
+                  onWithdraw={poolData.withdraw}
+                  onWithdrawAll={poolData.withdrawAll}
+                  canWithdrawAll={poolData.canWithdrawAll}
+                  onClaimInterest={poolData.claimInterest}
+                  isWithdrawPending={poolData.isWithdrawPending}
+                  isWithdrawSuccess={poolData.isWithdrawSuccess}
+                  isWithdrawError={poolData.isWithdrawError}
+                  withdrawError={poolData.withdrawError}
+                  isClaimPending={poolData.isClaimPending}
+                  isClaimSuccess={poolData.isClaimSuccess}
+                  isClaimError={poolData.isClaimError}
+                  claimError={poolData.claimError}
+                />
+              )}
+            </>
           )}
         </div>
 
         {/* Right Column - Earnings Chart */}
         <div className="lg:col-span-1">
-          <EarningsChart earnedInterest={poolData.earnedInterest} />
+          <EarningsChart
+            earnedInterest={poolData.earnedInterest}
+            currentAPY={poolData.currentAPY}
+            claims={interestClaims}
+          />
         </div>
       </div>
 
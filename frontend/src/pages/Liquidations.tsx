@@ -0,0 +1,78 @@
+import { AlertCircle, Info } from 'lucide-react';
+import { Card } from '../components/ui';
+import { useLiquidations } from '../hooks/useLiquidations';
+import { LiquidationTable } from '../features/liquidations/LiquidationTable';
+import { LiquidationSummary } from '../features/liquidations/LiquidationSummary';
+
+export const Liquidations = () => {
+  const liquidations = useLiquidations();
+
+  const stats = [
+    { label: 'Active Loans', value: liquidations.activeCount },
+    { label: 'Liquidatable', value: liquidations.positions.length },
+    { label: 'Awaiting Price', value: liquidations.unpricedCount },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">Liquidations</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Liquidate undercollateralized loans and earn 5% of the seized collateral
+        </p>
+      </div>
+
+      {/* Info Banner */}
+      <Card variant="standard" className="border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20">
+        <div className="flex items-start gap-3">
+          <Info className="h-5 w-5 text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-blue-800 dark:text-blue-200">
+            A loan becomes liquidatable once its collateral is worth less than 120% of the principal. Liquidating
+            sends 5% of the collateral to you and the rest to the protocol. Positions are re-checked every block.
+          </p>
+        </div>
+      </Card>
+
+      {/* Stats */}
+      <div className="grid grid-cols-3 gap-4">
+        {stats.map((stat) => (
+          <Card key={stat.label} variant="stat" title={stat.label}>
+            {liquidations.isLoading ? '—' : stat.value}
+          </Card>
+        ))}
+      </div>
+
+      {liquidations.unpricedCount > 0 && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+          <AlertCircle className="h-5 w-5 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-amber-900 dark:text-amber-100">
+            {liquidations.unpricedCount} ETH-backed {liquidations.unpricedCount === 1 ? 'loan' : 'loans'} can't be
+            checked until the oracle price is refreshed.
+          </p>
+        </div>
+      )}
+
+      {liquidations.result && (
+        <LiquidationSummary result={liquidations.result} onDismiss={liquidations.dismissResult} />
+      )}
+
+      {liquidations.isLiquidateError && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
+          <p className="text-sm text-red-900 dark:text-red-100">
+            {liquidations.liquidateError ?? 'Liquidation failed. Please try again.'}
+          </p>
+        </div>
+      )}
+
+      <LiquidationTable
+        positions={liquidations.positions}
+        isLoading={liquidations.isLoading}
+        onLiquidate={liquidations.liquidate}
+        liquidatingId={liquidations.liquidatingId}
+        isLiquidatePending={liquidations.isLiquidatePending}
+      />
+    </div>
+  );
+};
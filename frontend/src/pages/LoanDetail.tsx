@@ -0,0 +1,143 @@
+import { useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, FileText } from 'lucide-react';
+import { Card, Button } from '../components/ui';
+import { ReadOnlyNotice } from '../components/wallet/ReadOnlyNotice';
+import { useLoanManager } from '../hooks/useLoanManager';
+import { useLoanEvents } from '../hooks/useLoanEvents';
+import { useUsdtApproval } from '../hooks/useUsdtApproval';
+import { useContractAddresses } from '../hooks/useContract';
+import { usePriceOracle } from '../hooks/usePriceOracle';
+import { useViewedAccount } from '../hooks/useViewedAccount';
+import { formatUsdt } from '../lib/utils/format';
+import { LoanSummary } from '../features/loans/LoanSummary';
+import { LoanTimeline } from '../features/loans/LoanTimeline';
+import { RepaymentForm } from '../features/loans/RepaymentForm';
+import { CollateralDetails } from '../features/loans/CollateralDetails';
+import { CollateralLiquidatedNotice } from '../features/loans/CollateralLiquidatedNotice';
+import { LoanStatus, LOAN_STATUS_LABELS, LOAN_TYPE_LABELS } from '../types/loan';
+
+const parseLoanId = (value: string | undefined) => (value && /^\d+$/.test(value) ? BigInt(value) : undefined);
+
+export const LoanDetail = () => {
+  const loanId = parseLoanId(useParams().loanId);
+  const addresses = useContractAddresses();
+  const { linkTo } = useViewedAccount();
+  const loanManager = useLoanManager();
+  const oracle = usePriceOracle();
+  const loan = loanManager.loans.find((l) => l.id === loanId);
+
+  // Repayments are pulled by LoanManager via transferFrom
+  const { usdtBalance, allowance, approve, isApprovePending, refetchBalance } = useUsdtApproval(
+    addresses.loanManager
+  );
+  const { events, isLoading: eventsLoading } = useLoanEvents(
+    loan?.id,
+    loan ? `${loan.status}-${loan.totalRepaid}` : undefined
+  );
+
+  useEffect(() => {
+    if (loanManager.isRepaySuccess) refetchBalance();
+  }, [loanManager.isRepaySuccess, refetchBalance]);
+
+  const backLink = (
+    <Link to={linkTo('/my-loans')}>
+      <Button variant="ghost" size="sm">
+        <ArrowLeft className="h-4 w-4" />
+        My Loans
+      </Button>
+    </Link>
+  );
+
+  if (loanManager.isLoading) {
+    return (
+      <div className="animate-pulse space-y-6">
+        <div className="h-10 w-64 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        <div className="h-64 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+      </div>
+    );
+  }
+
+  if (!loan) {
+    return (
+      <div className="space-y-6">
+        {backLink}
+        <Card variant="standard">
+          <div className="text-center py-8">
+            <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 dark:bg-gray-800">
+              <FileText className="h-8 w-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">Loan Not Found</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              This loan doesn't exist or belongs to a different wallet.
+            </p>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const repay = (amount: bigint) =>
+    loanManager.repayLoan(loan.id, amount, [
+      { label: 'USDT balance', before: formatUsdt(usdtBalance), after: formatUsdt(usdtBalance - amount) },
+      {
+        label: 'Total due',
+        before: `${formatUsdt(loan.outstandingAmount)} USDT`,
+        after: `${formatUsdt(loan.outstandingAmount - amount)} USDT`,
+      },
+    ]);
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+          {LOAN_TYPE_LABELS[loan.loanType]} Loan #{loan.id.toString()}
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          {LOAN_STATUS_LABELS[loan.status]} · {loan.durationDays.toString()} day term
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <LoanSummary loan={loan} />
+          <LoanTimeline events={events} isLoading={eventsLoading} />
+        </div>
+
+        <div className="lg:col-span-1 space-y-6">
+          {loan.isCollateralLiquidated && <CollateralLiquidatedNotice />}
+          {loan.status === LoanStatus.Active && !loan.isCollateralLiquidated && loanManager.isReadOnly && (
+            <ReadOnlyNotice action="Repayments" />
+          )}
+          {loan.status === LoanStatus.Active && !loan.isCollateralLiquidated && !loanManager.isReadOnly && (
+            <RepaymentForm
+              key={loan.totalRepaid.toString()}
+              outstandingAmount={loan.outstandingAmount}
+              totalDue={loan.totalDue}
+              usdtBalance={usdtBalance}
+              allowance={allowance}
+              onApprove={approve}
+              onRepay={repay}
+              isApprovePending={isApprovePending}
+              isRepayPending={loanManager.isRepayPending}
+              isRepaySuccess={loanManager.isRepaySuccess}
+              isRepayError={loanManager.isRepayError}
+              repayError={loanManager.repayError}
+            />
+          )}
+          <CollateralDetails
+            loan={loan}
+            ethPrice={
+              oracle.price !== undefined && oracle.decimals !== undefined
+                ? { price: oracle.price, decimals: oracle.decimals }
+                : undefined
+            }
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
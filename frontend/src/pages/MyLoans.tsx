@@ -1,10 +1,87 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FileText, Plus } from 'lucide-react';
+import { Card, Button } from '../components/ui';
+import { WatchAddressBar } from '../components/wallet/WatchAddressBar';
+import { useLoanManager } from '../hooks/useLoanManager';
+import { usePriceOracle } from '../hooks/usePriceOracle';
+import { LoanCard } from '../features/loans/LoanCard';
+import { LoanFilters } from '../features/loans/LoanFilters';
+import { PriceStressTest } from '../features/loans/PriceStressTest';
+import type { LoanFilter } from '../features/loans/LoanFilters';
+import { LoanStatus } from '../types/loan';
+
 export const MyLoans = () => {
+  const [filter, setFilter] = useState<LoanFilter>('all');
+  const { loans, isLoading, isReadOnly } = useLoanManager();
+  const oracle = usePriceOracle();
+
+  // Overdue loans first, then newest first
+  const visibleLoans = loans
+    .filter((loan) => filter === 'all' || loan.status === filter)
+    .sort((a, b) => {
+      const aOverdue = a.status === LoanStatus.Active && a.isOverdue;
+      const bOverdue = b.status === LoanStatus.Active && b.isOverdue;
+      if (aOverdue !== bOverdue) return aOverdue ? -1 : 1;
+      return a.id > b.id ? -1 : 1;
+    });
+
   return (
-    <div className="p-8">
-      <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100">My Loans</h1>
-      <p className="mt-4 text-gray-600 dark:text-gray-400">
-        Manage your active loans and repayments
-      </p>
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">My Loans</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Track repayments, due dates and collateral health for every loan
+          </p>
+        </div>
+        {!isReadOnly && (
+          <Link to="/borrow">
+            <Button variant="primary">
+              <Plus className="h-4 w-4" />
+              New Loan
+            </Button>
+          </Link>
+        )}
+      </div>
+
+      <WatchAddressBar />
+
+      {oracle.price !== undefined && oracle.price > 0n && oracle.decimals !== undefined && (
+        <PriceStressTest loans={loans} price={oracle.price} priceDecimals={oracle.decimals} />
+      )}
+
+      <LoanFilters loans={loans} value={filter} onChange={setFilter} />
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-32 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+          <div className="h-32 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+        </div>
+      ) : visibleLoans.length === 0 ? (
+        <Card variant="standard">
+          <div className="text-center py-8">
+            <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 dark:bg-gray-800">
+              <FileText className="h-8 w-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">No Loans Found</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {filter !== 'all'
+                ? 'No loans match this filter.'
+                : isReadOnly
+                  ? "This address hasn't taken out any loans yet."
+                  : "You haven't taken out any loans yet."}
+            </p>
+          </div>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {visibleLoans.map((loan) => (
+            <LoanCard key={loan.id.toString()} loan={loan} />
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,10 +1,35 @@
+import { usePoolStats } from '../hooks/usePoolStats';
+import { PoolStats } from '../features/pool/PoolStats';
+import { RateModelChart } from '../features/pool/RateModelChart';
+import { LiquidityMetrics } from '../features/pool/LiquidityMetrics';
+import { ProtocolFees } from '../features/pool/ProtocolFees';
+import { PriceOracleStatus } from '../components/oracle/PriceOracleStatus';
+
 export const Pool = () => {
+  const { isLoading, ...stats } = usePoolStats();
+
   return (
-    <div className="p-8">
-      <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100">Pool Overview</h1>
-      <p className="mt-4 text-gray-600 dark:text-gray-400">
-        View lending pool statistics and performance
-      </p>
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">Pool Overview</h1>
+          <p className="text-gray-600 dark:text-gray-400">View lending pool statistics and performance</p>
+        </div>
+      </div>
+
+      <PoolStats stats={stats} isLoading={isLoading} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <RateModelChart utilization={stats.utilization} borrowRate={stats.borrowRate} lenderApy={stats.currentApy} />
+        </div>
+        <div className="lg:col-span-1 space-y-6">
+          <LiquidityMetrics stats={stats} />
+          <ProtocolFees stats={stats} />
+          <PriceOracleStatus />
+        </div>
+      </div>
     </div>
   );
 };
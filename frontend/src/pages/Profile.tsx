@@ -1,10 +1,56 @@
+import { User } from 'lucide-react';
+import { Card } from '../components/ui';
+import { WatchAddressBar } from '../components/wallet/WatchAddressBar';
+import { useUserBalance } from '../hooks/useUserBalance';
+import { useLoanManager } from '../hooks/useLoanManager';
+import { useViewedAccount } from '../hooks/useViewedAccount';
+import { PortfolioStats } from '../features/dashboard/PortfolioStats';
+import { CreditScoreGauge } from '../features/dashboard/CreditScoreGauge';
+
 export const Profile = () => {
+  const { address } = useViewedAccount();
+  const userBalance = useUserBalance();
+  const { loans, isLoading: loansLoading } = useLoanManager();
+
   return (
-    <div className="p-8">
-      <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100">Profile</h1>
-      <p className="mt-4 text-gray-600 dark:text-gray-400">
-        View your credit score and account details
-      </p>
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100">Profile</h1>
+        <p className="mt-2 text-gray-600 dark:text-gray-400">View your credit score and account details</p>
+      </div>
+
+      <WatchAddressBar />
+
+      {address ? (
+        <>
+          <Card variant="standard">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary-100 dark:bg-primary-900/20">
+                <User className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+              </div>
+              <div className="min-w-0">
+                <p className="text-xs text-gray-500 dark:text-gray-400">Account</p>
+                <p className="font-mono text-sm text-gray-900 dark:text-gray-100 break-all">{address}</p>
+              </div>
+            </div>
+          </Card>
+
+          <PortfolioStats userBalance={userBalance} loans={loans} loansLoading={loansLoading} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-1">
+              <CreditScoreGauge userBalance={userBalance} />
+            </div>
+          </div>
+        </>
+      ) : (
+        <Card variant="standard">
+          <p className="text-center py-6 text-sm text-gray-600 dark:text-gray-400">
+            Connect your wallet, or enter an address above, to see its profile.
+          </p>
+        </Card>
+      )}
     </div>
   );
 };
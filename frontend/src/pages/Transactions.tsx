@@ -1,10 +1,65 @@
+import { useState } from 'react';
+import { RefreshCw, AlertCircle } from 'lucide-react';
+import { useTransactions } from '../hooks/useTransactions';
+import { useViewedAccount } from '../hooks/useViewedAccount';
+import { INDEXED_EVENTS } from '../lib/indexer/events';
+import { TransactionFilters } from '../features/transactions/TransactionFilters';
+import type { TransactionFilter } from '../features/transactions/TransactionFilters';
+import { TransactionList } from '../features/transactions/TransactionList';
+import { ExportHistory } from '../features/transactions/ExportHistory';
+
 export const Transactions = () => {
+  const { address } = useViewedAccount();
+  const [filter, setFilter] = useState<TransactionFilter>('all');
+  const { events, isLoading, isSyncing, lastBlock, error } = useTransactions();
+
+  const visibleEvents = events.filter(
+    (event) => filter === 'all' || INDEXED_EVENTS[event.eventName]?.category === filter
+  );
+
   return (
-    <div className="p-8">
-      <h1 className="text-4xl font-bold text-gray-900 dark:text-gray-100">Transactions</h1>
-      <p className="mt-4 text-gray-600 dark:text-gray-400">
-        View your transaction history
-      </p>
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">Transactions</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Every deposit, loan, repayment and claim involving your address
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+          {isSyncing ? 'Syncing…' : lastBlock !== undefined ? `Synced to block ${lastBlock.toString()}` : null}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-3 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-900 dark:text-red-100">
+            Could not scan for new events: {error.message}. Showing previously indexed history.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <TransactionFilters events={events} value={filter} onChange={setFilter} />
+
+          {isLoading ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-16 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+              <div className="h-16 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+              <div className="h-16 bg-gray-200 dark:bg-gray-700 rounded-2xl"></div>
+            </div>
+          ) : (
+            <TransactionList events={visibleEvents} />
+          )}
+        </div>
+        <div className="lg:col-span-1">
+          {address && <ExportHistory account={address} events={events} />}
+        </div>
+      </div>
     </div>
   );
 };
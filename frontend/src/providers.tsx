@@ -5,6 +5,9 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
 import { config } from './config/wagmi';
 import { customTheme } from './config/rainbowkit';
+import { resumePendingTransactions } from './lib/transactions/txManager';
+import { ToastProvider } from './components/notifications/ToastProvider';
+import { PreflightProvider } from './components/transactions/PreflightProvider';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -16,6 +19,9 @@ const queryClient = new QueryClient({
   },
 });
 
+// Keep following transactions that were still pending when the page was last closed
+resumePendingTransactions(config);
+
 interface ProvidersProps {
   children: ReactNode;
 }
@@ -25,7 +31,9 @@ export function Providers({ children }: ProvidersProps) {
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider theme={customTheme}>
-          {children}
+          <ToastProvider>
+            <PreflightProvider>{children}</PreflightProvider>
+          </ToastProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
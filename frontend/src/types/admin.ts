@@ -0,0 +1,29 @@
+import type { Address } from 'viem';
+import type { PausableContract } from '../lib/contracts/wiring';
+
+// Owner-only writes offered on the Admin page, used to tell which one is in flight
+export const AdminAction = {
+  Pause: 'pause',
+  Unpause: 'unpause',
+  UpdatePriceOracle: 'updatePriceOracle',
+  SetPoolLoanManager: 'setPoolLoanManager',
+  SetScoreLoanManager: 'setScoreLoanManager',
+  WithdrawProtocolFees: 'withdrawProtocolFees',
+  UpdateProtocolTreasury: 'updateProtocolTreasury',
+  EmergencyWithdraw: 'emergencyWithdraw',
+  Mint: 'mint',
+} as const;
+export type AdminAction = (typeof AdminAction)[keyof typeof AdminAction];
+
+export interface PendingAdminAction {
+  action: AdminAction;
+  contract?: PausableContract; // For pause and unpause
+}
+
+// Balances the owner can move, all USDT (6 decimals)
+export interface AdminBalances {
+  protocolFees: bigint; // Collected by LoanManager, not yet sent to the treasury
+  faucetBalance: bigint;
+  usdtSupply: bigint;
+  treasury?: Address;
+}
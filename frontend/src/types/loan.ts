@@ -0,0 +1,111 @@
+import type { Address, Hash } from 'viem';
+
+// Mirrors InterestCalculator.LoanType (uint8 on-chain)
+export const LoanType = {
+  Personal: 0,
+  Home: 1,
+  Business: 2,
+  Auto: 3,
+} as const;
+export type LoanType = (typeof LoanType)[keyof typeof LoanType];
+
+// Mirrors CollateralManager.CollateralType (uint8 on-chain)
+export const CollateralType = {
+  ETH: 0,
+  USDT: 1,
+} as const;
+export type CollateralType = (typeof CollateralType)[keyof typeof CollateralType];
+
+// Mirrors LoanManager.LoanStatus (uint8 on-chain)
+export const LoanStatus = {
+  Active: 0,
+  Repaid: 1,
+  Defaulted: 2,
+} as const;
+export type LoanStatus = (typeof LoanStatus)[keyof typeof LoanStatus];
+
+// Mirrors the LoanManager.Loan struct returned by getLoan
+export interface Loan {
+  borrower: Address;
+  amount: bigint; // USDT (6 decimals)
+  collateralAmount: bigint; // wei for ETH, 6 decimals for USDT
+  collateralType: CollateralType;
+  loanType: LoanType;
+  interestRate: bigint; // Basis points
+  durationDays: bigint;
+  startTime: bigint;
+  dueDate: bigint;
+  totalRepaid: bigint;
+  status: LoanStatus;
+}
+
+// A borrower's loan together with the derived values LoanManager exposes
+export interface UserLoan extends Loan {
+  id: bigint;
+  outstandingAmount: bigint;
+  totalDue: bigint;
+  isOverdue: boolean;
+  healthRatio?: number; // Collateral value as % of principal, from CollateralManager
+  isCollateralLiquidated: boolean; // A keeper seized the collateral; the loan stays Active but can't be repaid
+}
+
+// An active loan from a liquidator's point of view, read from CollateralManager
+export interface LiquidationPosition {
+  loanId: bigint;
+  borrower: Address;
+  principal: bigint; // USDT (6 decimals)
+  collateralType: CollateralType;
+  collateralAmount: bigint; // wei for ETH, 6 decimals for USDT
+  healthRatio?: number; // Undefined when the oracle price is stale
+  collateralValue?: bigint; // USDT (6 decimals)
+  canLiquidate: boolean;
+  reward: bigint; // Liquidator reward in collateral units
+}
+
+// What a confirmed liquidation paid out, from its CollateralLiquidated event
+export interface LiquidationResult {
+  loanId: bigint;
+  borrower: Address;
+  collateralType: CollateralType;
+  collateralAmount: bigint;
+  reward: bigint;
+  transactionHash: Hash;
+}
+
+// An active loan as it stands against LoanManager's default deadline
+export interface DefaultQueueEntry {
+  loanId: bigint;
+  borrower: Address;
+  dueDate: bigint; // Unix seconds
+  outstandingAmount: bigint; // USDT (6 decimals)
+  collateralType: CollateralType;
+  collateralAmount: bigint; // wei for ETH, 6 decimals for USDT
+  creditScore?: number; // The borrower's current score, undefined until read
+}
+
+// A LoanManager event in a single loan's history
+export interface LoanEvent {
+  type: 'created' | 'repaid' | 'completed';
+  amount: bigint; // Principal for created, payment for repaid, total repaid for completed
+  blockNumber: bigint;
+  timestamp: bigint;
+  transactionHash: Hash;
+}
+
+export const LOAN_TYPE_LABELS: Record<LoanType, string> = {
+  [LoanType.Personal]: 'Personal',
+  [LoanType.Home]: 'Home',
+  [LoanType.Business]: 'Business',
+  [LoanType.Auto]: 'Auto',
+};
+
+export const COLLATERAL_TYPE_LABELS: Record<CollateralType, string> = {
+  [CollateralType.ETH]: 'ETH',
+  [CollateralType.USDT]: 'USDT',
+};
+
+export const LOAN_STATUS_LABELS: Record<LoanStatus, string> = {
+  [LoanStatus.Active]: 'Active',
+  [LoanStatus.Repaid]: 'Repaid',
+  [LoanStatus.Defaulted]: 'Defaulted',
+};
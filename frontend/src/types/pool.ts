@@ -0,0 +1,14 @@
+import type { Address } from 'viem';
+
+// LendingPool.getPoolStats plus LoanManager.getProtocolFeeInfo
+export interface PoolStats {
+  totalDeposits: bigint; // USDT (6 decimals)
+  totalBorrowed: bigint; // USDT (6 decimals)
+  availableLiquidity: bigint; // USDT held by the pool
+  utilization: bigint; // Basis points
+  currentApy: bigint; // Lender APY, basis points
+  borrowRate: bigint; // Basis points, derived from utilization
+  protocolFeePercentage: bigint; // Share of interest kept by the protocol, basis points
+  protocolFeesCollected: bigint; // USDT awaiting withdrawal to the treasury
+  protocolTreasury?: Address;
+}
@@ -0,0 +1,65 @@
+import type { Address, Hash } from 'viem';
+import type { ContractAddresses } from '../lib/contracts/addresses';
+
+// Groups used to filter the Transactions page
+export const TransactionCategory = {
+  Lending: 'lending',
+  Loans: 'loans',
+  Collateral: 'collateral',
+  Credit: 'credit',
+  Faucet: 'faucet',
+} as const;
+export type TransactionCategory = (typeof TransactionCategory)[keyof typeof TransactionCategory];
+
+// A decoded protocol event involving an account, as persisted by the indexer
+export interface IndexedEvent {
+  id: string; // `${accountKey}:${transactionHash}:${logIndex}`
+  accountKey: string; // Scopes records to one chain, deployment and account
+  contract: keyof ContractAddresses;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+  timestamp: number; // Block timestamp, seconds
+}
+
+export interface IndexerCheckpoint {
+  accountKey: string;
+  account: Address;
+  lastBlock: bigint; // Last block whose logs have been stored
+}
+
+export const TRANSACTION_CATEGORY_LABELS: Record<TransactionCategory, string> = {
+  [TransactionCategory.Lending]: 'Lending',
+  [TransactionCategory.Loans]: 'Loans',
+  [TransactionCategory.Collateral]: 'Collateral',
+  [TransactionCategory.Credit]: 'Credit',
+  [TransactionCategory.Faucet]: 'Faucet',
+};
+
+export const TrackedTxStatus = {
+  Pending: 'pending',
+  Confirmed: 'confirmed',
+  Failed: 'failed',
+} as const;
+export type TrackedTxStatus = (typeof TrackedTxStatus)[keyof typeof TrackedTxStatus];
+
+// A transaction submitted from this browser, followed until it is mined
+export interface TrackedTx {
+  hash: Hash;
+  label: string; // e.g. "Deposit 500.00 USDT"
+  chainId: number;
+  account: Address;
+  status: TrackedTxStatus;
+  submittedAt: number; // Milliseconds
+  settledAt?: number; // Milliseconds, once confirmed or failed
+  error?: string;
+}
+
+// One line of a pre-flight preview, e.g. "USDT balance: 1,000.00 → 900.00"
+export interface PredictedChange {
+  label: string;
+  before?: string; // Omitted for values that only exist afterwards
+  after: string;
+}